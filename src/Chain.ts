@@ -0,0 +1,265 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Maybe, Some, none } from './Maybe';
+import { Result, Ok, propagateErr } from './Result';
+
+/**
+ * `StepKind` is what a step of a chain does. `map` replaces the value, `flatMap` replaces the
+ * container, which may be another chain, and `filter` moves a value to the other side when its
+ * predicate fails.
+ */
+type StepKind = 'map' | 'flatMap' | 'filter'
+
+/**
+ * `Step` is a step of a chain. It only runs when the chain is on its side, an `Ok` or `Some`
+ * when `onOk` is true and an `Err` or `None` otherwise.
+ */
+interface Step {
+  readonly kind: StepKind;
+  readonly onOk: boolean;
+  readonly fn: (value: unknown) => unknown;
+}
+
+/**
+ * `Frame` is a chain being run: its source, its steps and the index of the next step.
+ */
+interface Frame {
+  readonly source: unknown;
+  readonly steps: Step[];
+  readonly length: number;
+  index: number;
+}
+
+/**
+ * `State` is the side and the value of a chain while it runs. It is updated in place by the steps.
+ */
+interface State {
+  ok: boolean;
+  value: unknown;
+  /** The `Result` the value was taken from, whose site a traced `Err` keeps. */
+  from?: Result<unknown, unknown>;
+}
+
+/**
+ * `ResultChain` is a lazily evaluated sequence of operations on a `Result`, created with
+ * {@link Result.chain}. Nothing runs until {@link ResultChain.run}, which runs the steps in a
+ * loop. The `map` and `mapErr` steps update the value in place, so `run` only creates a container
+ * for the result, where the eager methods create one per step. A `flatMap` may return another
+ * chain, whose steps are run in the same loop, so recursive chains use constant stack space.
+ *
+ * Example:
+ * ```
+ * const countdown = (n: number): ResultChain<number, string> =>
+ *   n === 0 ? Result.chain(new Ok(0)) : Result.chain(new Ok(n)).flatMap((n) => countdown(n - 1))
+ * countdown(1000000).run() // Ok(0)
+ * ```
+ */
+export class ResultChain<T,E> {
+  private readonly source: Result<unknown, unknown>
+  private readonly steps: Step[]
+  private readonly length: number
+
+  private constructor(source: Result<unknown, unknown>, steps: Step[], length: number) {
+    this.source = source
+    this.steps = steps
+    this.length = length
+  }
+
+  /**
+   * `of` starts a chain on the supplied `Result`. It is what {@link Result.chain} calls.
+   */
+  static of<T,E>(result: Result<T,E>): ResultChain<T,E> {
+    return new ResultChain(result, [], 0)
+  }
+
+  /**
+   * `map` adds a step applying the supplied function to the value of an `Ok`.
+   */
+  public map<U>(fn: (value: T) => U): ResultChain<U,E> {
+    return this.addStep<U,E>('map', true, fn)
+  }
+
+  /**
+   * `mapErr` adds a step applying the supplied function to the error of an `Err`.
+   */
+  public mapErr<F>(fn: (error: E) => F): ResultChain<T,F> {
+    return this.addStep<T,F>('map', false, fn)
+  }
+
+  /**
+   * `flatMap` adds a step applying the supplied function to the value of an `Ok`. The function
+   * may return a `Result` or another chain.
+   */
+  public flatMap<U,F>(fn: (value: T) => Result<U,F> | ResultChain<U,F>): ResultChain<U, E | F> {
+    return this.addStep<U, E | F>('flatMap', true, fn)
+  }
+
+  /**
+   * `orElse` adds a step applying the supplied function to the error of an `Err`. The function
+   * may return a `Result` or another chain.
+   */
+  public orElse<U,F>(fn: (error: E) => Result<U,F> | ResultChain<U,F>): ResultChain<T | U, F> {
+    return this.addStep<T | U, F>('flatMap', false, fn)
+  }
+
+  /**
+   * `run` runs the steps and returns the resulting `Result`.
+   */
+  public run(): Result<T,E> {
+    const frameOf = (value: unknown): Frame | undefined => {
+      return value instanceof ResultChain ? { source: value.source, steps: value.steps, length: value.length, index: 0 } : undefined
+    }
+    const state = runChain(frameOf(this), frameOf, setResultState)
+    return state.ok ? new Ok(state.value as T) : propagateErr(state.from, state.value as E)
+  }
+
+  private addStep<U,F>(kind: StepKind, onOk: boolean, fn: (value: never) => unknown): ResultChain<U,F> {
+    return new ResultChain<U,F>(this.source, append(this.steps, this.length, { kind, onOk, fn: fn as (value: unknown) => unknown }), this.length + 1)
+  }
+}
+
+/**
+ * `MaybeChain` is a lazily evaluated sequence of operations on a `Maybe`, created with
+ * {@link Maybe.chain}. See {@link ResultChain}.
+ */
+export class MaybeChain<T> {
+  private readonly source: Maybe<unknown>
+  private readonly steps: Step[]
+  private readonly length: number
+
+  private constructor(source: Maybe<unknown>, steps: Step[], length: number) {
+    this.source = source
+    this.steps = steps
+    this.length = length
+  }
+
+  /**
+   * `of` starts a chain on the supplied `Maybe`. It is what {@link Maybe.chain} calls.
+   */
+  static of<T>(maybe: Maybe<T>): MaybeChain<T> {
+    return new MaybeChain(maybe, [], 0)
+  }
+
+  /**
+   * `map` adds a step applying the supplied function to the value of a `Some`.
+   */
+  public map<U>(fn: (value: T) => U): MaybeChain<U> {
+    return this.addStep<U>('map', true, fn)
+  }
+
+  /**
+   * `flatMap` adds a step applying the supplied function to the value of a `Some`. The function
+   * may return a `Maybe` or another chain.
+   */
+  public flatMap<U>(fn: (value: T) => Maybe<U> | MaybeChain<U>): MaybeChain<U> {
+    return this.addStep<U>('flatMap', true, fn)
+  }
+
+  /**
+   * `filter` adds a step turning a `Some` into a `None` if the value does not satisfy the
+   * predicate.
+   */
+  public filter<S extends T>(predicate: (value: T) => value is S): MaybeChain<S>
+  public filter(predicate: (value: T) => boolean): MaybeChain<T>
+  public filter(predicate: (value: T) => boolean): MaybeChain<T> {
+    return this.addStep<T>('filter', true, predicate)
+  }
+
+  /**
+   * `orElse` adds a step calling the supplied function for a `None`. The function may return
+   * a `Maybe` or another chain.
+   */
+  public orElse(fn: () => Maybe<T> | MaybeChain<T>): MaybeChain<T> {
+    return this.addStep<T>('flatMap', false, fn)
+  }
+
+  /**
+   * `run` runs the steps and returns the resulting `Maybe`.
+   */
+  public run(): Maybe<T> {
+    const frameOf = (value: unknown): Frame | undefined => {
+      return value instanceof MaybeChain ? { source: value.source, steps: value.steps, length: value.length, index: 0 } : undefined
+    }
+    const state = runChain(frameOf(this), frameOf, setMaybeState)
+    return state.ok ? new Some(state.value as T) : none()
+  }
+
+  private addStep<U>(kind: StepKind, onOk: boolean, fn: (value: never) => unknown): MaybeChain<U> {
+    return new MaybeChain<U>(this.source, append(this.steps, this.length, { kind, onOk, fn: fn as (value: unknown) => unknown }), this.length + 1)
+  }
+}
+
+const setResultState = (state: State, result: Result<unknown, unknown>) => {
+  state.ok = result.isOk()
+  state.value = result.isOk() ? result.value : result.unwrapErr()
+  state.from = result
+}
+
+const setMaybeState = (state: State, maybe: Maybe<unknown>) => {
+  state.ok = maybe.isSome()
+  state.value = maybe.isSome() ? maybe.value : undefined
+}
+
+/**
+ * `append` adds a step after the first `length` steps of `steps`. Chains extending the same
+ * chain share the array as long as each step goes right after the others, otherwise the
+ * steps are copied.
+ */
+const append = (steps: Step[], length: number, step: Step): Step[] => {
+  const target = steps.length === length ? steps : steps.slice(0, length)
+  target.push(step)
+  return target
+}
+
+/**
+ * `runChain` runs the steps of a chain in a loop. When a `flatMap` returns another chain, the
+ * current chain is put on a stack and the steps of the other chain run first. A chain whose
+ * steps are all done is not put on the stack, so a chain ending in a recursive `flatMap` runs
+ * in constant space.
+ */
+const runChain = <C>(
+  first: Frame,
+  frameOf: (value: unknown) => Frame | undefined,
+  setState: (state: State, container: C) => void,
+): State => {
+  const stack: Frame[] = []
+  const state: State = { ok: false, value: undefined }
+  setState(state, first.source as C)
+  let frame = first
+  while (frame !== undefined) {
+    if (frame.index === frame.length) {
+      frame = stack.pop()
+      continue
+    }
+    const index = frame.index++
+    const { kind, onOk, fn } = frame.steps[index]
+    if (onOk !== state.ok) {
+      continue
+    }
+    if (kind === 'map') {
+      state.value = fn(state.value)
+    } else if (kind === 'filter') {
+      if (!fn(state.value)) {
+        state.ok = false
+        state.value = undefined
+      }
+    } else {
+      const next = fn(state.value)
+      const nextFrame = frameOf(next)
+      if (nextFrame === undefined) {
+        setState(state, next as C)
+        continue
+      }
+      setState(state, nextFrame.source as C)
+      if (frame.index < frame.length) {
+        stack.push(frame)
+      }
+      frame = nextFrame
+    }
+  }
+  return state
+}
@@ -0,0 +1,210 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+/**
+ * `inspectSymbol` is the symbol Node's `util.inspect` looks up for a custom representation. It
+ * is registered with `Symbol.for`, so it is `util.inspect.custom` without importing `util`.
+ */
+export const inspectSymbol = Symbol.for('nodejs.util.inspect.custom')
+
+/**
+ * `InspectOptions` is the part of Node's `util.inspect` options used by the containers.
+ */
+export interface InspectOptions {
+  depth?: number | null;
+}
+
+/**
+ * `Inspect` is Node's `util.inspect`, which Node passes to a custom `inspect` hook.
+ */
+export type Inspect = (value: unknown, options: InspectOptions) => string
+
+/**
+ * `show` returns a readable representation of a value for {@link Result.toString} and
+ * {@link Maybe.toString}. Strings are quoted, containers use their own `toString` and arrays,
+ * maps, sets and objects are shown with their contents.
+ *
+ * Example:
+ * ```
+ * show("a")                          // "a" with the quotes
+ * show({ id: 1, tags: ["a"] })       // { id: 1, tags: ["a"] }
+ * show(new TimeoutError(100))        // TimeoutError: Timed out after 100ms
+ * ```
+ */
+export const show = (value: unknown): string => {
+  return showValue(value, [])
+}
+
+/**
+ * `showText` converts a value to a string like `String`, for messages. A value `String` cannot
+ * convert, such as an object without a prototype, is shown with {@link show} instead.
+ *
+ * Example:
+ * ```
+ * showText("a")                  // a without quotes
+ * showText(Object.create(null))  // {}
+ * ```
+ */
+export const showText = (value: unknown): string => {
+  if (typeof value === 'object' && value !== null && typeof (value as { toString?: unknown }).toString !== 'function') {
+    return show(value)
+  }
+  return String(value)
+}
+
+const showValue = (value: unknown, seen: unknown[]): string => {
+  if (typeof value === 'string') {
+    return JSON.stringify(value)
+  }
+  if (typeof value === 'function') {
+    return value.name ? `[Function ${value.name}]` : '[Function]'
+  }
+  if (typeof value !== 'object' || value === null) {
+    return String(value)
+  }
+  if (seen.indexOf(value) !== -1) {
+    return '[Circular]'
+  }
+  const nested = seen.concat([value])
+  if (Array.isArray(value)) {
+    return `[${value.map((element) => showValue(element, nested)).join(', ')}]`
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()
+  }
+  if (value instanceof Error) {
+    return `${value.name}: ${value.message}`
+  }
+  if (value instanceof Map) {
+    const entries: string[] = []
+    value.forEach((element, key) => entries.push(`${showValue(key, nested)} => ${showValue(element, nested)}`))
+    return entries.length === 0 ? 'Map {}' : `Map { ${entries.join(', ')} }`
+  }
+  if (value instanceof Set) {
+    const elements: string[] = []
+    value.forEach((element) => elements.push(showValue(element, nested)))
+    return elements.length === 0 ? 'Set {}' : `Set { ${elements.join(', ')} }`
+  }
+  const record = value as Record<string, unknown>
+  if (typeof record.toString === 'function' && record.toString !== Object.prototype.toString) {
+    return String(value)
+  }
+  const properties = Object.keys(record).map((key) => `${key}: ${showValue(record[key], nested)}`)
+  const prototype = Object.getPrototypeOf(value)
+  const name = prototype === null || prototype === Object.prototype ? '' : `${prototype.constructor.name} `
+  return properties.length === 0 ? `${name}{}` : `${name}{ ${properties.join(', ')} }`
+}
+
+/**
+ * `inspectContainer` is the custom `util.inspect` hook of the containers. It shows the contents,
+ * at most one value, with the supplied `inspect` so they get Node's colors and depth, and
+ * abbreviates the contents once the depth is exhausted.
+ */
+export const inspectContainer = (tag: string, contents: unknown[], depth: number, options: InspectOptions, inspect?: Inspect): string => {
+  if (contents.length === 0) {
+    return tag
+  }
+  if (depth < 0) {
+    return `${tag}(...)`
+  }
+  if (inspect === undefined) {
+    return `${tag}(${show(contents[0])})`
+  }
+  const innerDepth = options.depth === undefined || options.depth === null ? options.depth : options.depth - 1
+  return `${tag}(${inspect(contents[0], { ...options, depth: innerDepth })})`
+}
+
+let errTracing = false
+
+/**
+ * `setErrTracing` turns the recording of the creation site of every `Err` on or off. While it
+ * is on, each new `Err` captures a stack trace, exposed as {@link Err.site}, which costs time,
+ * so only turn it on while debugging. Operations passing an `Err` on, such as `map` or
+ * `flatMap`, keep the site of the original one.
+ *
+ * Example:
+ * ```
+ * setErrTracing(true);
+ * const result = load(path).flatMap(parse).flatMap(validate);
+ * if (result.isErr()) {
+ *   console.error(result.error, result.site); // the stack of the step creating the Err
+ * }
+ * ```
+ */
+export const setErrTracing = (enabled: boolean): void => {
+  errTracing = enabled
+}
+
+/**
+ * `isErrTracing` tells if {@link setErrTracing} turned tracing on.
+ */
+export const isErrTracing = (): boolean => {
+  return errTracing
+}
+
+/**
+ * `captureSite` returns the frames of the current stack trace, without the header and, where
+ * the engine supports leaving them out, without the frames of `caller` and above it.
+ */
+export const captureSite = (caller: unknown): string | undefined => {
+  const holder: { stack?: string } = {}
+  const capture = (Error as { captureStackTrace?: (target: unknown, caller: unknown) => void }).captureStackTrace
+  if (capture !== undefined) {
+    capture(holder, caller)
+  } else {
+    holder.stack = new Error().stack
+  }
+  if (holder.stack === undefined) {
+    return undefined
+  }
+  const lines = holder.stack.split('\n').map((line) => line.trim())
+  const frames = lines.filter((line) => line.indexOf('at ') === 0)
+  return (frames.length > 0 ? frames : lines).join('\n')
+}
+
+/**
+ * `nodeEnv` returns `process.env.NODE_ENV` where there is a `process`, such as in Node. It checks
+ * `globalThis` first, as older browsers and runtimes do not define it.
+ */
+const nodeEnv = (): string | undefined => {
+  if (typeof globalThis === 'undefined') {
+    return undefined
+  }
+  const global = globalThis as { process?: { env?: Record<string, string | undefined> } }
+  return global.process !== undefined && global.process.env !== undefined ? global.process.env.NODE_ENV : undefined
+}
+
+let freezing = nodeEnv() !== 'production'
+
+/**
+ * `setFreezing` turns the freezing of new `Ok`, `Err` and `Some` instances with `Object.freeze`
+ * on or off. It is on unless `NODE_ENV` is `production`, so mutating a shared container throws
+ * during development without slowing down production. The contents of a container are not
+ * frozen, and the single `None` is frozen, or not, once as the library loads.
+ *
+ * Example:
+ * ```
+ * const ok = new Ok(1);
+ * (ok as { value: number }).value = 2; // throws a TypeError in strict mode
+ * ```
+ */
+export const setFreezing = (enabled: boolean): void => {
+  freezing = enabled
+}
+
+/**
+ * `isFreezing` tells if new containers are frozen. See {@link setFreezing}.
+ */
+export const isFreezing = (): boolean => {
+  return freezing
+}
+
+/**
+ * `freeze` freezes the supplied container if {@link setFreezing} is on.
+ */
+export const freeze = <T>(container: T): T => {
+  return freezing ? Object.freeze(container) : container
+}
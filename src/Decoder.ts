@@ -0,0 +1,284 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Maybe, Some, none } from './Maybe';
+import { Result, Ok, Err } from './Result';
+
+/**
+ * `Decoded` extracts the type produced by a `Decoder`.
+ *
+ * Example:
+ * ```
+ * const user = Decoder.object({ name: Decoder.string(), age: Decoder.optional(Decoder.number()) });
+ * type User = Decoded<typeof user>; // { name: string; age: Maybe<number> }
+ * ```
+ */
+export type Decoded<D> = D extends Decoder<infer T> ? T : never
+
+/**
+ * `Literal` is the type of the values accepted by {@link Decoder.literal}.
+ */
+type Literal = string | number | boolean | null
+
+/**
+ * `DecodeError` is the error of a failed {@link Decoder.decode}. The `path` is the JSON path,
+ * such as `$.users[0].name`, of the value that did not match and `expected` describes what was
+ * expected there.
+ *
+ * Example:
+ * ```
+ * const error = Decoder.array(Decoder.string()).decode(["a", 1]).unwrapErr();
+ * error.path      // "$[1]"
+ * error.expected  // "string"
+ * error.message   // "$[1]: expected string, got number"
+ * ```
+ */
+export class DecodeError extends Error {
+  readonly expected: string
+  readonly received: unknown
+  readonly path: string
+
+  constructor(expected: string, received: unknown, path = '$') {
+    super(`${path}: expected ${expected}, got ${describe(received)}`)
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = new.target.name
+    this.expected = expected
+    this.received = received
+    this.path = path
+  }
+
+  /**
+   * `at` returns a copy of this error located inside the property or index `segment`. It is
+   * used by the combinators to build the path while the error is returned.
+   */
+  public at(segment: string | number): DecodeError {
+    return new DecodeError(this.expected, this.received, `$${toPathSegment(segment)}${this.path.slice(1)}`)
+  }
+}
+
+/**
+ * `Decoder` checks that an unknown value, such as parsed JSON, has the expected shape and turns
+ * it into a typed value. {@link Decoder.decode} returns an `Ok` with the value or an `Err` with a
+ * {@link DecodeError} locating the first mismatch. The decoded type is inferred from the
+ * decoder, see {@link Decoded}.
+ *
+ * Example:
+ * ```
+ * const user = Decoder.object({
+ *   name: Decoder.string(),
+ *   tags: Decoder.array(Decoder.string()),
+ *   age: Decoder.optional(Decoder.number()),
+ * });
+ * user.decode(JSON.parse('{"name":"Eric","tags":[]}')) // Ok({ name: "Eric", tags: [], age: None })
+ * user.decode(JSON.parse('{"name":"Eric","tags":[1]}')) // Err(DecodeError("$.tags[0]: expected string, got number"))
+ * ```
+ */
+export class Decoder<T> {
+  readonly expected: string
+  private readonly run: (value: unknown) => Result<T, DecodeError>
+
+  /**
+   * Creates a decoder from a function. `expected` describes the accepted values and is used
+   * in the errors of combinators such as {@link Decoder.union}.
+   */
+  constructor(expected: string, run: (value: unknown) => Result<T, DecodeError>) {
+    this.expected = expected
+    this.run = run
+  }
+
+  /**
+   * `string` accepts strings.
+   */
+  static string(): Decoder<string> {
+    return fromGuard('string', (value): value is string => typeof value === 'string')
+  }
+
+  /**
+   * `number` accepts numbers except `NaN`.
+   */
+  static number(): Decoder<number> {
+    return fromGuard('number', (value): value is number => typeof value === 'number' && value === value)
+  }
+
+  /**
+   * `boolean` accepts `true` and `false`.
+   */
+  static boolean(): Decoder<boolean> {
+    return fromGuard('boolean', (value): value is boolean => typeof value === 'boolean')
+  }
+
+  /**
+   * `literal` accepts only the supplied value.
+   *
+   * Example:
+   * ```
+   * Decoder.literal("admin").decode("admin") // Ok("admin")
+   * Decoder.literal("admin").decode("user")  // Err(DecodeError("$: expected \"admin\", got string"))
+   * ```
+   */
+  static literal<L extends Literal>(literal: L): Decoder<L> {
+    return fromGuard(JSON.stringify(literal), (value): value is L => value === literal)
+  }
+
+  /**
+   * `array` accepts arrays whose every element is accepted by the supplied decoder.
+   */
+  static array<T>(decoder: Decoder<T>): Decoder<T[]> {
+    return new Decoder(`${decoder.expected}[]`, (value) => {
+      if (!Array.isArray(value)) {
+        return new Err(new DecodeError(`${decoder.expected}[]`, value))
+      }
+      return Result.all(value.map((element, index) => decoder.decode(element).mapErr((error) => error.at(index))))
+    })
+  }
+
+  /**
+   * `object` accepts objects whose properties are accepted by the decoders of the supplied
+   * shape. Properties that are not part of the shape are left out of the decoded value, and
+   * inherited properties, such as `constructor`, count as missing.
+   *
+   * Example:
+   * ```
+   * const point = Decoder.object({ x: Decoder.number(), y: Decoder.number() });
+   * point.decode({ x: 1, y: 2, z: 3 }) // Ok({ x: 1, y: 2 })
+   * point.decode({ x: 1 })             // Err(DecodeError("$.y: expected number, got undefined"))
+   * ```
+   */
+  static object<S extends Record<string, Decoder<unknown>>>(shape: S): Decoder<{ [K in keyof S]: Decoded<S[K]> }> {
+    return new Decoder('object', (value) => {
+      if (!isRecord(value)) {
+        return new Err(new DecodeError('object', value))
+      }
+      const fields: Record<string, Result<unknown, DecodeError>> = Object.create(null)
+      Object.keys(shape).forEach((key) => {
+        const field = Object.prototype.hasOwnProperty.call(value, key) ? value[key] : undefined
+        fields[key] = shape[key].decode(field).mapErr((error) => error.at(key))
+      })
+      return Result.all(fields) as Result<{ [K in keyof S]: Decoded<S[K]> }, DecodeError>
+    })
+  }
+
+  /**
+   * `record` accepts objects whose every property is accepted by the supplied decoder. Every
+   * key is kept as a property, including `__proto__`.
+   */
+  static record<T>(decoder: Decoder<T>): Decoder<Record<string, T>> {
+    return new Decoder(`Record<string, ${decoder.expected}>`, (value) => {
+      if (!isRecord(value)) {
+        return new Err(new DecodeError(`Record<string, ${decoder.expected}>`, value))
+      }
+      const fields: Record<string, Result<T, DecodeError>> = Object.create(null)
+      Object.keys(value).forEach((key) => {
+        fields[key] = decoder.decode(value[key]).mapErr((error) => error.at(key))
+      })
+      return Result.all(fields) as Result<Record<string, T>, DecodeError>
+    })
+  }
+
+  /**
+   * `optional` decodes `null` and `undefined`, including a missing property, to `None` and
+   * anything else with the supplied decoder into a `Some`.
+   *
+   * Example:
+   * ```
+   * const age = Decoder.object({ age: Decoder.optional(Decoder.number()) });
+   * age.decode({ age: 42 }) // Ok({ age: Some(42) })
+   * age.decode({})          // Ok({ age: None })
+   * ```
+   */
+  static optional<T>(decoder: Decoder<T>): Decoder<Maybe<T>> {
+    return new Decoder(`${decoder.expected} | undefined`, (value): Result<Maybe<T>, DecodeError> => {
+      if (value === null || value === undefined) {
+        return new Ok(none())
+      }
+      return decoder.decode(value).map((decoded) => new Some(decoded))
+    })
+  }
+
+  /**
+   * `union` tries the supplied decoders in order and returns the first success. If none of
+   * them accepts the value the error lists everything that was expected.
+   *
+   * Example:
+   * ```
+   * const id = Decoder.union(Decoder.string(), Decoder.number());
+   * id.decode(1)    // Ok(1)
+   * id.decode(true) // Err(DecodeError("$: expected string | number, got boolean"))
+   * ```
+   */
+  static union<D extends Decoder<unknown>[]>(...decoders: D): Decoder<Decoded<D[number]>> {
+    const expected = decoders.map((decoder) => decoder.expected).join(' | ')
+    return new Decoder(expected, (value) => {
+      for (const decoder of decoders) {
+        const decoded = decoder.decode(value)
+        if (decoded.isOk()) {
+          return decoded as Result<Decoded<D[number]>, DecodeError>
+        }
+      }
+      return new Err(new DecodeError(expected, value))
+    })
+  }
+
+  /**
+   * `decode` checks the supplied value, returning it as an `Ok` if it matches or an `Err`
+   * with a {@link DecodeError} for the first mismatch.
+   */
+  public decode(value: unknown): Result<T, DecodeError> {
+    return this.run(value)
+  }
+
+  /**
+   * `refine` adds a check on the decoded value. Values failing the predicate are rejected
+   * with an error expecting `expected`.
+   *
+   * Example:
+   * ```
+   * const port = Decoder.number().refine((n) => n > 0 && n < 65536, "port");
+   * port.decode(80)  // Ok(80)
+   * port.decode(-1)  // Err(DecodeError("$: expected port, got number"))
+   * ```
+   */
+  public refine(predicate: (value: T) => boolean, expected = this.expected): Decoder<T> {
+    return new Decoder(expected, (value) => this.decode(value).flatMap((decoded) => {
+      return predicate(decoded) ? new Ok(decoded) : new Err(new DecodeError(expected, value))
+    }))
+  }
+
+  /**
+   * `transform` applies the supplied function to the decoded value.
+   *
+   * Example:
+   * ```
+   * const date = Decoder.string().transform((text) => new Date(text));
+   * date.decode("2020-12-22") // Ok(Date)
+   * ```
+   */
+  public transform<U>(fn: (value: T) => U): Decoder<U> {
+    return new Decoder(this.expected, (value) => this.decode(value).map(fn))
+  }
+}
+
+const fromGuard = <T>(expected: string, guard: (value: unknown) => value is T): Decoder<T> => {
+  return new Decoder(expected, (value) => guard(value) ? new Ok(value) : new Err(new DecodeError(expected, value)))
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) {
+    return 'null'
+  }
+  return Array.isArray(value) ? 'array' : typeof value
+}
+
+const toPathSegment = (segment: string | number): string => {
+  if (typeof segment === 'number') {
+    return `[${segment}]`
+  }
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(segment) ? `.${segment}` : `[${JSON.stringify(segment)}]`
+}
@@ -0,0 +1,208 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Maybe, Some, none } from './Maybe';
+import { Result, Ok, Err } from './Result';
+
+/**
+ * `EitherMatcher` is a private interface used for matching on an `Either`. See the
+ * documentation for {@link Either.match} for usage.
+ */
+interface EitherMatcher<L,R,U,V> {
+  Left: (value: L) => U;
+  Right: (value: R) => V;
+}
+
+/**
+ * `Either` holds one of two values, a `Left` or a `Right`. Unlike {@link Result} neither side
+ * means failure, so every operation comes in a version for each side. Use it for values that
+ * are genuinely one thing or another, such as a cached or a fresh response.
+ *
+ * Example:
+ * ```
+ * const response: Either<Cached, Fresh> = cache.has(key) ? new Left(cache.get(key)) : new Right(fetch(key));
+ * response.fold(
+ *   (cached) => `cached at ${cached.time}`,
+ *   (fresh) => `fetched at ${fresh.time}`,
+ * );
+ * ```
+ */
+export abstract class Either<L,R> {
+  readonly __tag: 'Left' | 'Right'
+
+  /**
+   * `fromResult` converts a `Result` into an `Either`, with the error on the left and the value
+   * on the right.
+   */
+  static fromResult<T,E>(result: Result<T,E>): Either<E,T> {
+    return result.match<Either<E,T>, Either<E,T>>({
+      'Ok': (value) => new Right(value),
+      'Err': (error) => new Left(error),
+    })
+  }
+
+  /**
+   * `fromMaybe` converts a `Maybe` into an `Either`, with the value of a `Some` on the right and
+   * the supplied value on the left for a `None`.
+   *
+   * Example:
+   * ```
+   * Either.fromMaybe(new Some(1), "missing")  // Right(1)
+   * Either.fromMaybe(new None(), "missing")   // Left("missing")
+   * ```
+   */
+  static fromMaybe<L,R>(maybe: Maybe<R>, left: L): Either<L,R> {
+    return maybe.match<Either<L,R>, Either<L,R>>({
+      'Some': (value) => new Right(value),
+      'None': () => new Left(left),
+    })
+  }
+
+  /**
+   * isLeft returns true if this is an instance of `Left` and false otherwise. It is also used
+   * as a type guard.
+   */
+  public isLeft(): this is Left<L,R> {
+    return this.__tag === 'Left'
+  }
+
+  /**
+   * isRight returns true if this is an instance of `Right` and false otherwise. It is also used
+   * as a type guard.
+   */
+  public isRight(): this is Right<L,R> {
+    return !this.isLeft()
+  }
+
+  /**
+   * `match` calls the `Left` or the `Right` branch with the value.
+   *
+   * Example:
+   * ```
+   * const either: Either<number, string> = new Left(1);
+   * either.match({
+   *     'Left': (value) => value * 2,
+   *     'Right': (value) => value.length,
+   * }); // 2
+   * ```
+   */
+  public match<U,V>(matcher: EitherMatcher<L,R,U,V>): U | V {
+    if (this.isLeft()) {
+      return matcher.Left(this.value)
+    } else if (this.isRight()) {
+      return matcher.Right(this.value)
+    }
+  }
+
+  /**
+   * `fold` calls `onLeft` or `onRight` with the value and returns the result. It is
+   * {@link Either.match} with positional functions returning the same type.
+   */
+  public fold<U>(onLeft: (value: L) => U, onRight: (value: R) => U): U {
+    return this.match<U,U>({ 'Left': onLeft, 'Right': onRight })
+  }
+
+  /**
+   * `mapLeft` applies the supplied function to the value of a `Left`. A `Right` is passed
+   * through.
+   */
+  public mapLeft<U>(fn: (value: L) => U): Either<U,R> {
+    return this.bimap(fn, (value) => value)
+  }
+
+  /**
+   * `mapRight` applies the supplied function to the value of a `Right`. A `Left` is passed
+   * through.
+   */
+  public mapRight<U>(fn: (value: R) => U): Either<L,U> {
+    return this.bimap((value) => value, fn)
+  }
+
+  /**
+   * `bimap` applies `onLeft` to the value of a `Left` or `onRight` to the value of a `Right`.
+   *
+   * Example:
+   * ```
+   * new Left<number, string>(1).bimap((n) => n + 1, (s) => s.length)  // Left(2)
+   * new Right<number, string>("ab").bimap((n) => n + 1, (s) => s.length)  // Right(2)
+   * ```
+   */
+  public bimap<U,V>(onLeft: (value: L) => U, onRight: (value: R) => V): Either<U,V> {
+    return this.match<Either<U,V>, Either<U,V>>({
+      'Left': (value) => new Left(onLeft(value)),
+      'Right': (value) => new Right(onRight(value)),
+    })
+  }
+
+  /**
+   * `swap` turns a `Left` into a `Right` and a `Right` into a `Left`.
+   */
+  public swap(): Either<R,L> {
+    return this.match<Either<R,L>, Either<R,L>>({
+      'Left': (value) => new Right(value),
+      'Right': (value) => new Left(value),
+    })
+  }
+
+  /**
+   * `getLeft` returns the value of a `Left` as a `Some`, or `None` for a `Right`.
+   */
+  public getLeft(): Maybe<L> {
+    return this.match<Maybe<L>, Maybe<L>>({
+      'Left': (value) => new Some(value),
+      'Right': () => none(),
+    })
+  }
+
+  /**
+   * `getRight` returns the value of a `Right` as a `Some`, or `None` for a `Left`.
+   */
+  public getRight(): Maybe<R> {
+    return this.match<Maybe<R>, Maybe<R>>({
+      'Left': () => none(),
+      'Right': (value) => new Some(value),
+    })
+  }
+
+  /**
+   * `toResult` converts this `Either` into a `Result` with the right value as the value and the
+   * left value as the error. It is the inverse of {@link Either.fromResult}.
+   */
+  public toResult(): Result<R,L> {
+    return this.match<Result<R,L>, Result<R,L>>({
+      'Left': (value) => new Err(value),
+      'Right': (value) => new Ok(value),
+    })
+  }
+}
+
+export class Left<L,R> extends Either<L,R> {
+  readonly __tag = 'Left'
+  readonly value: L
+
+  constructor(value: L) {
+    super()
+    this.value = value
+  }
+}
+
+export class Right<L,R> extends Either<L,R> {
+  readonly __tag = 'Right'
+  readonly value: R
+
+  constructor(value: R) {
+    super()
+    this.value = value
+  }
+}
+
+export const left = <L, _>(value: L): Either<L,_> => {
+  return new Left(value)
+}
+
+export const right = <_, R>(value: R): Either<_,R> => {
+  return new Right(value)
+}
@@ -0,0 +1,90 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+/**
+ * `Eq` is a function deciding if two values are equal. It is used by {@link Maybe.equals},
+ * {@link Result.equals} and `contains`.
+ */
+export type Eq<T> = (a: T, b: T) => boolean
+
+/**
+ * `Compare` is a function ordering two values in the same way as the comparator taken by
+ * `Array.prototype.sort`: negative if `a` comes first, positive if `b` comes first and zero
+ * if they are equal.
+ */
+export type Compare<T> = (a: T, b: T) => number
+
+/**
+ * `strictEqual` compares two values with `===`. It is the default comparison of `contains`.
+ */
+export const strictEqual = <T>(a: T, b: T): boolean => {
+  return a === b
+}
+
+/**
+ * `deepEqual` compares two values structurally. Primitives are compared with `===` (with `NaN`
+ * equal to itself), dates by their time, maps and sets by their entries and any other object by
+ * its prototype and own enumerable properties, recursively. Since `Maybe` and `Result` values are
+ * plain objects this also compares nested containers.
+ *
+ * Example:
+ * ```
+ * deepEqual({ id: 1, tags: ["a"] }, { id: 1, tags: ["a"] }) // true
+ * deepEqual(new Some({ id: 1 }), new Some({ id: 1 }))       // true
+ * deepEqual(new Some(1), new Ok(1))                         // false
+ * ```
+ */
+export const deepEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b || (a !== a && b !== b)) {
+    return true
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false
+  }
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) {
+    return false
+  }
+  if (a instanceof Date) {
+    return a.getTime() === (b as Date).getTime()
+  }
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>
+    if (a.size !== other.size) {
+      return false
+    }
+    let equal = true
+    a.forEach((value, key) => {
+      equal = equal && other.has(key) && deepEqual(value, other.get(key))
+    })
+    return equal
+  }
+  if (a instanceof Set) {
+    const other = b as Set<unknown>
+    let equal = a.size === other.size
+    a.forEach((value) => {
+      equal = equal && other.has(value)
+    })
+    return equal
+  }
+  const recordA = a as Record<string, unknown>
+  const recordB = b as Record<string, unknown>
+  const keys = Object.keys(recordA)
+  if (keys.length !== Object.keys(recordB).length) {
+    return false
+  }
+  return keys.every((key) => Object.prototype.hasOwnProperty.call(recordB, key) && deepEqual(recordA[key], recordB[key]))
+}
+
+/**
+ * `defaultCompare` orders two values with `<` and `>`. This works for numbers, strings,
+ * booleans and dates.
+ */
+export const defaultCompare = <T>(a: T, b: T): number => {
+  if (a < b) {
+    return -1
+  }
+  return a > b ? 1 : 0
+}
@@ -0,0 +1,185 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Maybe, none } from './Maybe';
+import { MaybeAsync } from './MaybeAsync';
+import { Result, Ok, propagateErr } from './Result';
+import { ResultAsync } from './ResultAsync';
+
+/**
+ * `AnyIterable` is what the asynchronous helpers accept: an async iterable, such as a Node
+ * stream, or a plain iterable.
+ */
+export type AnyIterable<T> = AsyncIterable<T> | Iterable<T>
+
+/**
+ * `filterMap` lazily applies the supplied function to every element and yields the values of
+ * the returned `Some`s, skipping the `None`s.
+ *
+ * Example:
+ * ```
+ * const ids = filterMap(lines, (line) => Maybe.fromNullable(line.match(/id=(\d+)/)).map((match) => match[1]));
+ * for (const id of ids) { ... }
+ * ```
+ */
+export function* filterMap<T,U>(iterable: Iterable<T>, fn: (value: T) => Maybe<U>): IterableIterator<U> {
+  for (const value of iterable) {
+    yield* fn(value).iter()
+  }
+}
+
+/**
+ * `collectResults` collects the values of the results into an array. It stops reading at the
+ * first `Err` and returns it.
+ *
+ * Example:
+ * ```
+ * collectResults([new Ok(1), new Ok(2)])                  // Ok([1, 2])
+ * collectResults([new Ok(1), new Err("a"), new Err("b")]) // Err("a")
+ * ```
+ */
+export const collectResults = <T,E>(iterable: Iterable<Result<T,E>>): Result<T[], E> => {
+  const values: T[] = []
+  for (const result of iterable) {
+    if (result.isErr()) {
+      return propagateErr(result, result.error)
+    }
+    values.push(result.unwrap())
+  }
+  return new Ok(values)
+}
+
+/**
+ * `takeWhileOk` lazily yields the values of the results up to, and not including, the first
+ * `Err`.
+ *
+ * Example:
+ * ```
+ * [...takeWhileOk([new Ok(1), new Err("a"), new Ok(2)])] // [1]
+ * ```
+ */
+export function* takeWhileOk<T,E>(iterable: Iterable<Result<T,E>>): IterableIterator<T> {
+  for (const result of iterable) {
+    if (result.isErr()) {
+      return
+    }
+    yield result.unwrap()
+  }
+}
+
+/**
+ * `partitionResults` reads all the results and splits them into the values of the `Ok`s and
+ * the errors of the `Err`s, keeping their order. It is {@link Result.partition} for any
+ * iterable.
+ */
+export const partitionResults = <T,E>(iterable: Iterable<Result<T,E>>): [T[], E[]] => {
+  const values: T[] = []
+  const errors: E[] = []
+  for (const result of iterable) {
+    if (result.isOk()) {
+      values.push(result.value)
+    } else {
+      errors.push(result.unwrapErr())
+    }
+  }
+  return [values, errors]
+}
+
+/**
+ * `findMap` applies the supplied function to the elements until it returns a `Some`, which is
+ * returned. It returns `None` when there is no such element.
+ *
+ * Example:
+ * ```
+ * findMap(["a", "1", "2"], (text) => Maybe.fromPredicate(Number(text), (n) => !isNaN(n))) // Some(1)
+ * ```
+ */
+export const findMap = <T,U>(iterable: Iterable<T>, fn: (value: T) => Maybe<U>): Maybe<U> => {
+  for (const value of iterable) {
+    const found = fn(value)
+    if (found.isSome()) {
+      return found
+    }
+  }
+  return none()
+}
+
+/**
+ * `filterMapAsync` is the asynchronous counterpart of {@link filterMap}. The function may
+ * return a promise.
+ *
+ * Example:
+ * ```
+ * const lines = readline.createInterface({ input: fs.createReadStream(path) });
+ * for await (const record of filterMapAsync(lines, parseRecord)) { ... }
+ * ```
+ */
+export async function* filterMapAsync<T,U>(iterable: AnyIterable<T>, fn: (value: T) => Maybe<U> | PromiseLike<Maybe<U>>): AsyncIterableIterator<U> {
+  for await (const value of iterable) {
+    yield* (await fn(value)).iter()
+  }
+}
+
+/**
+ * `collectResultsAsync` is the asynchronous counterpart of {@link collectResults}. It stops
+ * reading, which closes a stream, at the first `Err`.
+ */
+export const collectResultsAsync = <T,E>(iterable: AnyIterable<Result<T,E>>): ResultAsync<T[], E> => {
+  return new ResultAsync((async (): Promise<Result<T[], E>> => {
+    const values: T[] = []
+    for await (const result of iterable) {
+      if (result.isErr()) {
+        return propagateErr(result, result.error)
+      }
+      values.push(result.unwrap())
+    }
+    return new Ok(values)
+  })())
+}
+
+/**
+ * `takeWhileOkAsync` is the asynchronous counterpart of {@link takeWhileOk}.
+ */
+export async function* takeWhileOkAsync<T,E>(iterable: AnyIterable<Result<T,E>>): AsyncIterableIterator<T> {
+  for await (const result of iterable) {
+    if (result.isErr()) {
+      return
+    }
+    yield result.unwrap()
+  }
+}
+
+/**
+ * `partitionResultsAsync` is the asynchronous counterpart of {@link partitionResults}.
+ */
+export const partitionResultsAsync = async <T,E>(iterable: AnyIterable<Result<T,E>>): Promise<[T[], E[]]> => {
+  const values: T[] = []
+  const errors: E[] = []
+  for await (const result of iterable) {
+    if (result.isOk()) {
+      values.push(result.value)
+    } else {
+      errors.push(result.unwrapErr())
+    }
+  }
+  return [values, errors]
+}
+
+/**
+ * `findMapAsync` is the asynchronous counterpart of {@link findMap}. The function may return
+ * a promise.
+ */
+export const findMapAsync = <T,U>(iterable: AnyIterable<T>, fn: (value: T) => Maybe<U> | PromiseLike<Maybe<U>>): MaybeAsync<U> => {
+  return new MaybeAsync((async (): Promise<Maybe<U>> => {
+    for await (const value of iterable) {
+      const found = await fn(value)
+      if (found.isSome()) {
+        return found
+      }
+    }
+    return none()
+  })())
+}
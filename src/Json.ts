@@ -0,0 +1,109 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Some, none } from './Maybe';
+import { Ok, Err, toRecord } from './Result';
+
+/**
+ * The JSON representation of `Maybe` and `Result` values. This is the format produced by
+ * `JSON.stringify` and the format read by {@link reviver}, {@link Maybe.fromJSON} and
+ * {@link Result.fromJSON}:
+ *
+ * ```
+ * new Ok(1)      // {"__tag":"Ok","value":1}
+ * new Err("e")   // {"__tag":"Err","error":"e"}
+ * new Some(1)    // {"__tag":"Some","value":1}
+ * new None()     // {"__tag":"None"}
+ * ```
+ *
+ * Nested containers are represented in the same way, and a value of `undefined` is left out
+ * just as `JSON.stringify` does for any other property.
+ */
+export interface OkJSON<T> {
+  __tag: 'Ok';
+  value: T;
+}
+
+export interface ErrJSON<E> {
+  __tag: 'Err';
+  error: E;
+}
+
+export interface SomeJSON<T> {
+  __tag: 'Some';
+  value: T;
+}
+
+export interface NoneJSON {
+  __tag: 'None';
+}
+
+export type ResultJSON<T,E> = OkJSON<T> | ErrJSON<E>
+
+export type MaybeJSON<T> = SomeJSON<T> | NoneJSON
+
+/**
+ * `reviver` can be passed to `JSON.parse` to rebuild `Ok`, `Err`, `Some` and `None` instances,
+ * at any depth, from their JSON representation.
+ *
+ * Example:
+ * ```
+ * const text = JSON.stringify({ user: new Ok(new Some("Eric")) });
+ * const { user } = JSON.parse(text, reviver);
+ * user.unwrap().unwrap() // "Eric"
+ * ```
+ */
+export const reviver = (_: string, value: unknown): unknown => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return value
+  }
+  const tagged = value as Record<string, unknown>
+  switch (tagged.__tag) {
+    case 'Ok':
+      return new Ok(tagged.value)
+    case 'Err':
+      return new Err(tagged.error)
+    case 'Some':
+      return new Some(tagged.value)
+    case 'None':
+      return none()
+    default:
+      return value
+  }
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> => {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+/**
+ * `revive` rebuilds `Ok`, `Err`, `Some` and `None` instances, at any depth, in an already
+ * parsed value. Only arrays and plain objects are walked, anything else is returned as is.
+ *
+ * This is also what makes values survive `structuredClone` and `postMessage` between worker
+ * threads, which keep the fields of a container but drop its class.
+ *
+ * Example:
+ * ```
+ * worker.on("message", (message) => {
+ *   const result = revive(message) as Result<Job, string>;
+ * });
+ * ```
+ */
+export const revive = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map((element) => revive(element))
+  }
+  if (!isPlainObject(value)) {
+    return value
+  }
+  const keys = Object.keys(value)
+  return reviver('', toRecord(keys, keys.map((key) => revive(value[key]))))
+}
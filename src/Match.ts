@@ -0,0 +1,224 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Maybe, Some, none } from './Maybe';
+import { Result, Ok, Err } from './Result';
+
+/**
+ * `Guard` holds a predicate that has to accept a value for a branch of a match to be taken.
+ * Create one with {@link when}.
+ */
+export class Guard<T> {
+  readonly predicate: (value: T) => boolean
+
+  constructor(predicate: (value: T) => boolean) {
+    this.predicate = predicate
+  }
+}
+
+/**
+ * `when` creates a {@link Guard}. It can be put in front of a branch of
+ * {@link Result.match} and {@link Maybe.match}, or passed to {@link MatchBuilder.with}.
+ *
+ * Example:
+ * ```
+ * result.match({
+ *   Ok: [when((value) => value > 0), (value) => "positive"],
+ *   _: () => "something else",
+ * });
+ * ```
+ */
+export const when = <T>(predicate: (value: T) => boolean): Guard<T> => {
+  return new Guard(predicate)
+}
+
+/**
+ * `NestedCases` are the cases of {@link Result.match} or {@link Maybe.match} used as a branch
+ * to match on a `Result` or `Maybe` nested in another one.
+ */
+type NestedCases<T,R> = [T] extends [Maybe<infer U>]
+  ? MaybeCases<U,R>
+  : [T] extends [Result<infer U, infer F>] ? ResultCases<U,F,R> : never
+
+/**
+ * `Branch` is what handles a value in {@link Result.match} and {@link Maybe.match}: a function,
+ * a function preceded by a {@link Guard} or the cases of a nested `Result` or `Maybe`.
+ */
+export type Branch<T,R> = ((value: T) => R) | [Guard<T>, (value: T) => R] | NestedCases<T,R>
+
+/**
+ * `ResultCases` are the cases accepted by {@link Result.match}. Either both `Ok` and `Err` are
+ * handled, or the `_` wildcard handles everything that is not.
+ */
+export type ResultCases<T,E,R> =
+  | { Ok: ((value: T) => R) | NestedCases<T,R>; Err: ((error: E) => R) | NestedCases<E,R>; _?: (result: Result<T,E>) => R }
+  | { Ok?: Branch<T,R>; Err?: Branch<E,R>; _: (result: Result<T,E>) => R }
+
+/**
+ * `MaybeCases` are the cases accepted by {@link Maybe.match}. Either both `Some` and `None` are
+ * handled, or the `_` wildcard handles everything that is not.
+ */
+export type MaybeCases<T,R> =
+  | { Some: ((value: T) => R) | NestedCases<T,R>; None: () => R; _?: (maybe: Maybe<T>) => R }
+  | { Some?: Branch<T,R>; None?: () => R; _: (maybe: Maybe<T>) => R }
+
+/**
+ * `runBranch` applies a {@link Branch} to a value, returning `None` when there is no branch or
+ * its guard rejects the value.
+ */
+export const runBranch = <T,R>(branch: Branch<T,R> | undefined, value: T): Maybe<R> => {
+  if (branch === undefined) {
+    return none()
+  }
+  if (typeof branch === 'function') {
+    return new Some(branch(value))
+  }
+  if (Array.isArray(branch)) {
+    const [guard, handler] = branch
+    return guard.predicate(value) ? new Some(handler(value)) : none()
+  }
+  const nested = value as unknown as { match: (cases: unknown) => R }
+  return new Some(nested.match(branch))
+}
+
+/**
+ * `Expanded` spreads the unions nested in a `Result` or `Maybe` over the container, so that
+ * `Result<Maybe<T>, A | B>` becomes `Ok<Some<T>> | Ok<None<T>> | Err<A> | Err<B>`. This is
+ * what allows {@link MatchBuilder.exhaustive} to check the nested cases.
+ */
+type Expanded<V> = V extends Ok<infer T, infer E>
+  ? OkOfEach<Expanded<T>, E>
+  : V extends Err<infer T, infer E>
+    ? ErrOfEach<T, Expanded<E>>
+    : V extends Some<infer T> ? SomeOfEach<Expanded<T>> : V
+
+type OkOfEach<T,E> = T extends unknown ? Ok<T,E> : never
+
+type ErrOfEach<T,E> = E extends unknown ? Err<T,E> : never
+
+type SomeOfEach<T> = T extends unknown ? Some<T> : never
+
+/**
+ * `Pattern` is a deep partial of a value. A value matches a pattern when every property of the
+ * pattern matches the property of the value, and primitives are equal.
+ */
+export type Pattern<V> = V extends string | number | boolean | symbol | null | undefined ? V : { [K in keyof V]?: Pattern<V[K]> }
+
+/**
+ * `Matched` is the type of the values matching the pattern `P`, or all of `V` when the pattern
+ * only narrows a part of a value's type, such as a single number.
+ */
+type Matched<V,P> = MatchedOf<Expanded<V>, P> extends infer M ? [M] extends [never] ? V : M : never
+
+type MatchedOf<V,P> = V extends P ? V : never
+
+/**
+ * `Unmatched` removes the values fully matched by the pattern `P` from `V`.
+ */
+type Unmatched<V,P> = V extends P ? never : V
+
+/**
+ * `NonExhaustive` is the type of the argument {@link MatchBuilder.exhaustive} asks for when some
+ * cases are not handled. It only exists to name the missing cases in the type error.
+ */
+interface NonExhaustive<V> {
+  unhandled: V;
+}
+
+/**
+ * `MatchBuilder` is created by {@link match} and collects cases with {@link MatchBuilder.with}.
+ * It keeps track of the cases that are not handled yet in `Remaining`.
+ */
+export class MatchBuilder<V, Remaining, R> {
+  private readonly value: V
+  private readonly matched: Maybe<R>
+
+  constructor(value: V, matched: Maybe<R>) {
+    this.value = value
+    this.matched = matched
+  }
+
+  /**
+   * `with` adds a case. The handler is called with the value if it matches the pattern, and the
+   * guard if one is supplied, and no earlier case was taken. A case without a guard marks the
+   * values matching the pattern as handled.
+   *
+   * Example:
+   * ```
+   * match(result)
+   *   .with({ __tag: 'Ok' }, (ok) => ok.value)
+   *   .with({ __tag: 'Err', error: { type: 'NotFound' } }, () => 404)
+   *   .with({ __tag: 'Err', error: { type: 'Forbidden' } }, () => 403)
+   *   .exhaustive();
+   * ```
+   */
+  public with<P extends Pattern<Expanded<V>>, U>(pattern: P, handler: (value: Matched<V,P>) => U): MatchBuilder<V, Unmatched<Remaining,P>, R | U>
+  public with<P extends Pattern<Expanded<V>>, U>(pattern: P, guard: Guard<Matched<V,P>>, handler: (value: Matched<V,P>) => U): MatchBuilder<V, Remaining, R | U>
+  public with<U>(
+    pattern: unknown,
+    guardOrHandler: Guard<never> | ((value: never) => U),
+    handler?: (value: never) => U,
+  ): MatchBuilder<V, unknown, R | U> {
+    if (this.matched.isSome() || !matchesPattern(this.value, pattern)) {
+      return this
+    }
+    const branch = (handler === undefined ? guardOrHandler : [guardOrHandler, handler]) as Branch<V,U>
+    return new MatchBuilder<V, unknown, R | U>(this.value, runBranch(branch, this.value))
+  }
+
+  /**
+   * `exhaustive` returns the result of the case that was taken. It is a type error to call it
+   * before every case is handled, and it throws an {@link UnwrapNoneError} if no case was taken
+   * at runtime, which can only happen when the types were bypassed.
+   */
+  public exhaustive(..._: [Remaining] extends [never] ? [] : [NonExhaustive<Remaining>]): R {
+    return this.matched.expect('No pattern matched the value')
+  }
+
+  /**
+   * `otherwise` returns the result of the case that was taken, or of the supplied function if
+   * none was.
+   */
+  public otherwise<U>(fn: (value: V) => U): R | U {
+    return this.matched.match<R | U, R | U>({
+      Some: (value) => value,
+      None: () => fn(this.value),
+    })
+  }
+}
+
+/**
+ * `match` starts matching the supplied value against patterns. Cases are added with
+ * {@link MatchBuilder.with} and the match is finished with {@link MatchBuilder.exhaustive},
+ * which only type checks once every case is handled, or {@link MatchBuilder.otherwise}.
+ * Nested containers and discriminated unions in an `Err` are checked case by case.
+ *
+ * Example:
+ * ```
+ * type FetchError = { type: 'NotFound' } | { type: 'Forbidden' };
+ * const result: Result<Maybe<User>, FetchError> = fetchUser(id);
+ * const status = match(result)
+ *   .with({ __tag: 'Ok', value: { __tag: 'Some' } }, () => 200)
+ *   .with({ __tag: 'Ok', value: { __tag: 'None' } }, () => 204)
+ *   .with({ __tag: 'Err', error: { type: 'NotFound' } }, () => 404)
+ *   .exhaustive(); // type error, Forbidden is not handled
+ * ```
+ */
+export const match = <V>(value: V): MatchBuilder<V, Expanded<V>, never> => {
+  return new MatchBuilder(value, none())
+}
+
+const matchesPattern = (value: unknown, pattern: unknown): boolean => {
+  if (typeof pattern !== 'object' || pattern === null) {
+    return value === pattern
+  }
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const record = value as Record<string, unknown>
+  const patternRecord = pattern as Record<string, unknown>
+  return Object.keys(patternRecord).every((key) => matchesPattern(record[key], patternRecord[key]))
+}
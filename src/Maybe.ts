@@ -4,6 +4,15 @@
  * file, You can obtain one at http://mozilla.org/MPL/2.0/.
  */
 
+import { MaybeChain } from './Chain';
+import { Inspect, InspectOptions, freeze, inspectContainer, inspectSymbol, show } from './Debug';
+import { Eq, Compare, strictEqual, deepEqual, defaultCompare } from './Equality';
+import { MaybeJSON, revive } from './Json';
+import { MaybeCases, runBranch } from './Match';
+import { MaybeAsync } from './MaybeAsync';
+import { Result, Ok, Err, toRecord } from './Result';
+import { UnwrapNoneError } from './UnwrapError';
+
 /**
  * `MaybeMatcher` is a private class used for enabling some type of
  * rust/scala like matching. See the documentation for {@link Maybe.match}
@@ -15,16 +24,217 @@ interface MaybeMatcher<T,U,V> {
 }
 
 /**
- * `Maybe` is an abstract class implementing the common Maybe/Option types
+ * `SomeOf` extracts the value type of a `Maybe`.
+ */
+type SomeOf<M> = M extends Maybe<infer T> ? T : never
+
+/**
+ * `maybeBrand` marks every `Maybe`. It is registered with `Symbol.for` so that a `Maybe` created
+ * by another copy of this library, as happens with duplicated packages in a monorepo, is still
+ * recognised by {@link Maybe.isMaybe}.
+ */
+const maybeBrand = Symbol.for('picofp/Maybe')
+
+/**
+ * `Maybe` implements the common Maybe/Option types
  * found in many functional (and other) languages. It is commonly used for
  * error handling to not have to deal with exceptions of null checking but
  * you don't want to pass any information about the error.
  *
  * An option is either something that contains a value, or a `Some`, or it
- * does not contain a value, a `None`.
+ * does not contain a value, a `None`. `Maybe<T>` is the union of both, so it can be
+ * discriminated on `__tag`:
+ *
+ * ```
+ * switch (maybe.__tag) {
+ *   case 'Some': return maybe.value;
+ *   case 'None': return 0;
+ * }
+ * ```
+ */
+export type Maybe<T> = Some<T> | None<T>
+
+/**
+ * `MaybeBase` holds the methods shared by `Some` and `None`. It is exported as `Maybe` to give
+ * access to the static functions.
  */
-export abstract class Maybe<T> {
-  readonly __tag: string;
+export abstract class MaybeBase<T> {
+  readonly __tag: 'Some' | 'None';
+
+  /**
+   * `isMaybe` tells if the supplied value is a `Some` or a `None`. Unlike `instanceof` this also
+   * works for values created by another copy of this library.
+   *
+   * Example:
+   * ```
+   * Maybe.isMaybe(new Some(1)) // true
+   * Maybe.isMaybe({ __tag: "None" }) // false, use Maybe.fromJSON for plain objects
+   * ```
+   */
+  static isMaybe(value: unknown): value is Maybe<unknown> {
+    return typeof value === 'object' && value !== null && maybeBrand in value
+  }
+
+  /**
+   * `chain` starts a lazily evaluated {@link MaybeChain} on the supplied maybe. The steps added
+   * to it only run on {@link MaybeChain.run}, see {@link Result.chain}.
+   *
+   * Example:
+   * ```
+   * Maybe.chain(new Some(1))
+   *   .map((value) => value + 1)
+   *   .filter((value) => value > 2)
+   *   .run() // None
+   * ```
+   */
+  static chain<T>(maybe: Maybe<T>): MaybeChain<T> {
+    return MaybeChain.of(maybe)
+  }
+
+  /**
+   * `fromNullable` returns a `Some` containing the supplied value unless it is `null` or
+   * `undefined`, in which case a `None` is returned.
+   *
+   * Example:
+   * ```
+   * Maybe.fromNullable(map.get("key")) // Some(value) or None
+   * Maybe.fromNullable(null)           // None
+   * ```
+   */
+  static fromNullable<T>(value: T | null | undefined): Maybe<NonNullable<T>> {
+    if (value === null || value === undefined) {
+      return none()
+    }
+    return new Some(value as NonNullable<T>)
+  }
+
+  /**
+   * `fromPredicate` returns a `Some` containing the supplied value if it satisfies the
+   * predicate and a `None` otherwise. A type guard can be used as the predicate to narrow the
+   * type of the value.
+   *
+   * Example:
+   * ```
+   * Maybe.fromPredicate(10, (value) => value > 5)  // Some(10)
+   * Maybe.fromPredicate(input, isString)           // Maybe<string>
+   * ```
+   */
+  static fromPredicate<T, S extends T>(value: T, predicate: (value: T) => value is S): Maybe<S>
+  static fromPredicate<T>(value: T, predicate: (value: T) => boolean): Maybe<T>
+  static fromPredicate<T>(value: T, predicate: (value: T) => boolean): Maybe<T> {
+    return predicate(value) ? new Some(value) : none()
+  }
+
+  /**
+   * `fromFalsy` returns a `Some` containing the supplied value if it is truthy and a `None`
+   * otherwise.
+   *
+   * Example:
+   * ```
+   * Maybe.fromFalsy("foo") // Some("foo")
+   * Maybe.fromFalsy("")    // None
+   * Maybe.fromFalsy(0)     // None
+   * ```
+   */
+  static fromFalsy<T>(value: T): Maybe<Exclude<T, false | 0 | '' | null | undefined>> {
+    return value ? new Some(value as Exclude<T, false | 0 | '' | null | undefined>) : none()
+  }
+
+  /**
+   * `gen` provides a do-notation for `Maybe` using generators. Inside the generator `yield*`
+   * on {@link Maybe.bind} evaluates to the value of a `Some`, while the first `None` stops the
+   * generator and is returned.
+   *
+   * Example:
+   * ```
+   * const total: Maybe<number> = Maybe.gen(function* () {
+   *   const price = yield* lookupPrice(item).bind();       // Maybe<number>
+   *   const discount = yield* lookupDiscount(item).bind(); // Maybe<number>
+   *   return price - discount;
+   * });
+   * ```
+   */
+  static gen<T>(fn: () => Generator<None, T, unknown>): Maybe<T> {
+    const iterator = fn()
+    const next = iterator.next()
+    if (next.done) {
+      return new Some(next.value as T)
+    }
+    iterator.return(undefined)
+    return none()
+  }
+
+  /**
+   * `genAsync` is the asynchronous counterpart of {@link Maybe.gen} taking an async
+   * generator. Both `Maybe` and {@link MaybeAsync} values can be bound with `yield*`.
+   *
+   * Example:
+   * ```
+   * const user: MaybeAsync<User> = Maybe.genAsync(async function* () {
+   *   const id = yield* cache.lookupId(name).bind();  // MaybeAsync<string>
+   *   return yield* db.findUser(id).bind();           // MaybeAsync<User>
+   * });
+   * ```
+   */
+  static genAsync<T>(fn: () => AsyncGenerator<None, T, unknown>): MaybeAsync<T> {
+    const iterator = fn()
+    return new MaybeAsync(iterator.next().then(async (next): Promise<Maybe<T>> => {
+      if (next.done) {
+        return new Some(next.value as T)
+      }
+      await iterator.return(undefined)
+      return none()
+    }))
+  }
+
+  /**
+   * `all` turns an array, tuple or record of maybes into a single `Maybe` containing all the
+   * values, or `None` if any of them is a `None`.
+   *
+   * Example:
+   * ```
+   * const a: Maybe<number> = new Some(1);
+   * const b: Maybe<string> = new Some("foo");
+   * Maybe.all([a, b])           // Some([1, "foo"]) of type Maybe<[number, string]>
+   * Maybe.all({ a, b })         // Some({ a: 1, b: "foo" })
+   * Maybe.all([a, new None()])  // None
+   * ```
+   */
+  static all<M extends readonly Maybe<unknown>[] | []>(maybes: M): Maybe<{ -readonly [K in keyof M]: SomeOf<M[K]> }>
+  static all<M extends Record<string, Maybe<unknown>>>(maybes: M): Maybe<{ [K in keyof M]: SomeOf<M[K]> }>
+  static all(maybes: readonly Maybe<unknown>[] | Record<string, Maybe<unknown>>): Maybe<unknown> {
+    if (!Array.isArray(maybes)) {
+      const record = maybes as Record<string, Maybe<unknown>>
+      const keys = Object.keys(record)
+      return Maybe.all(keys.map((key) => record[key])).map((values) => toRecord(keys, values))
+    }
+    const values: unknown[] = []
+    for (const maybe of maybes) {
+      if (maybe.isNone()) {
+        return none()
+      }
+      values.push(maybe.unwrap())
+    }
+    return new Some(values)
+  }
+
+  /**
+   * `values` returns the values of all the `Some`s in the supplied array, skipping any `None`.
+   *
+   * Example:
+   * ```
+   * Maybe.values([new Some(1), new None(), new Some(3)]) // [1, 3]
+   * ```
+   */
+  static values<M extends Maybe<unknown>>(maybes: readonly M[]): SomeOf<M>[] {
+    const values: SomeOf<M>[] = []
+    for (const maybe of maybes) {
+      if (maybe.isSome()) {
+        values.push(maybe.value as SomeOf<M>)
+      }
+    }
+    return values
+  }
 
   /**
    * isSome returns true if this is an instance of `Some` and false otherwise.
@@ -75,18 +285,140 @@ export abstract class Maybe<T> {
    *     'None'; () => return 2,
    * });
    * ```
+   *
+   * The cases may also leave out a branch or guard it with {@link when}, as long as the `_`
+   * wildcard handles everything else, and match on a nested `Maybe` or `Result` with nested
+   * cases:
+   *
+   * ```
+   * const some: Maybe<number> = new Some(-1);
+   * some.match({
+   *     'Some': [when((value) => value > 0), (value) => value],
+   *     '_': () => 0,
+   * }); // 0
+   * ```
+   */
+  public match<R>(cases: MaybeCases<T,R>): R
+  public match<U,V>(matcher: MaybeMatcher<T,U,V>): U | V
+  public match<R>(cases: MaybeCases<T,R>): R {
+    if (this.isSome()) {
+      const matched = runBranch(cases.Some, this.value)
+      return matched.isSome() ? matched.value : cases._(this)
+    } else if (this.isNone()) {
+      const matched = runBranch(cases.None, undefined)
+      return matched.isSome() ? matched.value : cases._(this)
+    }
+  }
+
+  /**
+   * `bind` is what `yield*` is used with inside {@link Maybe.gen}. For a `Some` it completes
+   * immediately with the value, a `None` yields itself so the generator can be stopped.
+   *
+   * Example:
+   * ```
+   * Maybe.gen(function* () {
+   *   const user = yield* findUser(id).bind();
+   *   return user.name;
+   * })
+   * ```
+   */
+  public *bind(): Generator<None, T, unknown> {
+    if (this.isNone()) {
+      yield new None()
+    }
+    return this.unwrap()
+  }
+
+  /**
+   * `toAsync` lifts this `Maybe` into a {@link MaybeAsync} allowing it to be chained with
+   * asynchronous steps.
+   *
+   * Example:
+   * ```
+   * const some: Maybe<string> = new Some("id");
+   * await some.toAsync().flatMap((id) => cache.lookup(id))
+   * ```
+   */
+  public toAsync(this: Maybe<T>): MaybeAsync<T> {
+    return MaybeAsync.fromMaybe(this)
+  }
+
+  /**
+   * `equals` returns true if both this and the supplied maybe are `None`, or if both are `Some`
+   * with equal values. Values are compared structurally with {@link deepEqual} unless another
+   * comparison is supplied.
+   *
+   * Example:
+   * ```
+   * new Some({ id: 1 }).equals(new Some({ id: 1 }))                      // true
+   * new Some({ id: 1 }).equals(new Some({ id: 2 }), (a, b) => a === b)   // false
+   * new None().equals(new None())                                        // true
+   * ```
    */
-  public match<U,V>(matcher: MaybeMatcher<T,U,V>): U | V {
+  public equals(other: Maybe<T>, eq: Eq<T> = deepEqual): boolean {
+    if (this.isSome() && other.isSome()) {
+      return eq(this.value, other.value)
+    }
+    return this.isNone() && other.isNone()
+  }
+
+  /**
+   * `compare` orders this and the supplied maybe. A `None` comes before any `Some` and two
+   * `Some` values are ordered by their values using {@link defaultCompare} unless another
+   * comparison is supplied.
+   *
+   * Example:
+   * ```
+   * new None().compare(new Some(1))    // -1
+   * new Some(2).compare(new Some(1))   // 1
+   * ```
+   */
+  public compare(other: Maybe<T>, cmp: Compare<T> = defaultCompare): number {
+    if (this.isSome() && other.isSome()) {
+      return cmp(this.value, other.value)
+    }
     if (this.isSome()) {
-      return matcher.Some(this.value);
-    } else {
-      return matcher.None();
+      return 1
+    }
+    return other.isSome() ? -1 : 0
+  }
+
+  /**
+   * `comparator` returns a function ordering maybes as in {@link Maybe.compare}, suitable for
+   * `Array.prototype.sort`.
+   *
+   * Example:
+   * ```
+   * [new Some(2), new None(), new Some(1)].sort(Maybe.comparator()) // [None, Some(1), Some(2)]
+   * ```
+   */
+  static comparator<T>(cmp: Compare<T> = defaultCompare): Compare<Maybe<T>> {
+    return (a, b) => a.compare(b, cmp)
+  }
+
+  /**
+   * `fromJSON` rebuilds a `Maybe` from its JSON representation, either the text produced by
+   * `JSON.stringify` or an already parsed object. Nested `Maybe` and `Result` values are
+   * rebuilt as well. A `TypeError` is thrown if the value is not a `Maybe`.
+   *
+   * Example:
+   * ```
+   * const text = JSON.stringify(new Some(1)); // '{"__tag":"Some","value":1}'
+   * Maybe.fromJSON<number>(text)              // Some(1)
+   * ```
+   */
+  static fromJSON<T = unknown>(json: string | MaybeJSON<unknown>): Maybe<T> {
+    const maybe = revive(typeof json === 'string' ? JSON.parse(json) : json)
+    if (!Maybe.isMaybe(maybe)) {
+      throw new TypeError(`Cannot create a Maybe from ${JSON.stringify(json)}`)
     }
+    return maybe as Maybe<T>
   }
 
   /**
    * `contains` will return true if this `Some` value contains the supplied value. In all other cases
-   * it will return false.
+   * it will return false. Values are compared with `===` unless another comparison, such as
+   * {@link deepEqual}, is supplied.
    *
    *
    * Example:
@@ -95,24 +427,37 @@ export abstract class Maybe<T> {
    * some.contains("string") // true
    * some.contains("false")  // false
    * (new None()).contains("anything") // false
+   * new Some({ id: 1 }).contains({ id: 1 }, deepEqual) // true
    * ```
    */
-  abstract contains(value: T): boolean
+  abstract contains(value: T, eq?: Eq<T>): boolean
 
   /**
-   * `unwrap` returns the value contained in the `Some` or throws an error.
+   * `unwrap` returns the value contained in the `Some` or throws an {@link UnwrapNoneError}.
    *
    * Example:
    * ```
    * const some: Maybe<number> = new Some(1);
    * some.unwrap() // 1
    * const none: Maybe<number> = new None();
-   * none.unwrap() // Error thrown.
+   * none.unwrap() // UnwrapNoneError thrown.
    * ```
    *
    */
   abstract unwrap(): T
 
+  /**
+   * `expect` works like {@link Maybe.unwrap} but the thrown {@link UnwrapNoneError} has the
+   * supplied message.
+   *
+   * Example:
+   * ```
+   * const none: Maybe<User> = new None();
+   * none.expect("user should be logged in") // UnwrapNoneError("user should be logged in")
+   * ```
+   */
+  abstract expect(message: string): T
+
   /**
    * `unwrapOr` returns the value contained in the `Some` or the supplied value.
    *
@@ -137,7 +482,7 @@ export abstract class Maybe<T> {
    * some.map((value) => value.length) // Some(6)
    *
    * const none: Maybe<string> = new None();
-   * some.map((value) => value.length) // None
+   * none.map((value) => value.length) // None
    * ```
    */
   abstract map<U>(fn: (value: T) => U): Maybe<U>
@@ -149,10 +494,10 @@ export abstract class Maybe<T> {
    * Example:
    * ```
    * const some: Maybe<string> = new Some("string");
-   * some.map((value) => value.length, 10) // Some(6)
+   * some.mapOr((value) => value.length, 10) // Some(6)
    *
    * const none: Maybe<string> = new None();
-   * some.map((value) => value.length, 10) // Some(10)
+   * none.mapOr((value) => value.length, 10) // Some(10)
    * ```
    */
   abstract mapOr<U>(fn: (value: T) => U, def: U): Maybe<U>
@@ -167,29 +512,242 @@ export abstract class Maybe<T> {
    * some.flatMap((value) => new Some(value.length)) // Some(6)
    *
    * const none: Maybe<string> = new None();
-   * some.map((value) => new Some(10)) // Some(10)
+   * none.flatMap((value) => new Some(value.length)) // None
    * ```
    */
   abstract flatMap<U>(fn: (value: T) => Maybe<U>): Maybe<U>
+
+  /**
+   * `filter` returns this `Some` if the value satisfies the predicate, otherwise `None`. If the
+   * predicate is a type guard the value is narrowed accordingly.
+   *
+   * Example:
+   * ```
+   * new Some(4).filter((value) => value % 2 === 0) // Some(4)
+   * new Some(3).filter((value) => value % 2 === 0) // None
+   *
+   * const input: Maybe<string | number> = new Some("foo");
+   * input.filter(isString) // Maybe<string>
+   * ```
+   */
+  abstract filter<S extends T>(predicate: (value: T) => value is S): Maybe<S>
+  abstract filter(predicate: (value: T) => boolean): Maybe<T>
+
+  /**
+   * `or` returns this `Some` or the supplied maybe if this is a `None`.
+   *
+   * Example:
+   * ```
+   * new Some(1).or(new Some(2))  // Some(1)
+   * new None().or(new Some(2))   // Some(2)
+   * ```
+   */
+  abstract or(other: Maybe<T>): Maybe<T>
+
+  /**
+   * `orElse` returns this `Some` or calls the supplied function if this is a `None`.
+   *
+   * Example:
+   * ```
+   * cache.get(id).orElse(() => db.get(id))
+   * ```
+   */
+  abstract orElse(fn: () => Maybe<T>): Maybe<T>
+
+  /**
+   * `xor` returns the `Some` if exactly one of this and the supplied maybe is a `Some`,
+   * otherwise `None`.
+   *
+   * Example:
+   * ```
+   * new Some(1).xor(new None())   // Some(1)
+   * new Some(1).xor(new Some(2))  // None
+   * ```
+   */
+  abstract xor(other: Maybe<T>): Maybe<T>
+
+  /**
+   * `zip` combines this and the supplied maybe into a `Some` of a tuple if both are `Some`.
+   *
+   * Example:
+   * ```
+   * new Some(1).zip(new Some("foo")) // Some([1, "foo"])
+   * new Some(1).zip(new None())      // None
+   * ```
+   */
+  abstract zip<U>(other: Maybe<U>): Maybe<[T, U]>
+
+  /**
+   * `zipWith` combines the values of this and the supplied maybe with the function if both
+   * are `Some`.
+   *
+   * Example:
+   * ```
+   * new Some(1).zipWith(new Some(2), (a, b) => a + b) // Some(3)
+   * ```
+   */
+  abstract zipWith<U,R>(other: Maybe<U>, fn: (value: T, other: U) => R): Maybe<R>
+
+  /**
+   * `unzip` splits a `Maybe` of a tuple into a tuple of maybes.
+   *
+   * Example:
+   * ```
+   * new Some([1, "foo"]).unzip() // [Some(1), Some("foo")]
+   * new None().unzip()           // [None, None]
+   * ```
+   */
+  abstract unzip<A,B>(this: Maybe<[A, B]>): [Maybe<A>, Maybe<B>]
+
+  /**
+   * `okOr` converts this `Maybe` into a {@link Result}, with the value of a `Some` as an `Ok`
+   * and the supplied error as an `Err` for a `None`.
+   *
+   * Example:
+   * ```
+   * new Some(1).okOr("not found")  // Ok(1)
+   * new None().okOr("not found")   // Err("not found")
+   * ```
+   */
+  abstract okOr<E>(error: E): Result<T,E>
+
+  /**
+   * `okOrElse` works like {@link Maybe.okOr} but the error is computed by the supplied function.
+   */
+  abstract okOrElse<E>(fn: () => E): Result<T,E>
+
+  /**
+   * `unwrapOrElse` returns the value contained in the `Some` or computes one with the supplied
+   * function.
+   *
+   * Example:
+   * ```
+   * const none: Maybe<number> = new None();
+   * none.unwrapOrElse(() => 2) // 2
+   * ```
+   */
+  abstract unwrapOrElse(fn: () => T): T
+
+  /**
+   * `flatten` removes one level of nesting from a `Maybe<Maybe<U>>`.
+   *
+   * Example:
+   * ```
+   * new Some(new Some(1)).flatten() // Some(1)
+   * new Some(new None()).flatten()  // None
+   * ```
+   */
+  abstract flatten<U>(this: Maybe<Maybe<U>>): Maybe<U>
+
+  /**
+   * `transpose` turns a `Maybe` of a {@link Result} into a `Result` of a `Maybe`. `None` becomes
+   * `Ok(None)`, `Some(Ok(v))` becomes `Ok(Some(v))` and `Some(Err(e))` becomes `Err(e)`.
+   */
+  abstract transpose<U,E>(this: Maybe<Result<U,E>>): Result<Maybe<U>,E>
+
+  /**
+   * `tap` calls the supplied function with the value of a `Some` and returns the maybe
+   * unchanged. Useful for side effects such as logging.
+   */
+  abstract tap(fn: (value: T) => void): Maybe<T>
+
+  /**
+   * `toNullable` returns the value of a `Some` or `null` for a `None`.
+   */
+  abstract toNullable(): T | null
+
+  /**
+   * `toUndefined` returns the value of a `Some` or `undefined` for a `None`.
+   */
+  abstract toUndefined(): T | undefined
+
+  /**
+   * `isSomeAnd` returns true if this is a `Some` and the value satisfies the predicate.
+   *
+   * Example:
+   * ```
+   * new Some(2).isSomeAnd((value) => value > 1) // true
+   * new None().isSomeAnd((value) => value > 1)  // false
+   * ```
+   */
+  abstract isSomeAnd(predicate: (value: T) => boolean): boolean
+
+  /**
+   * `iter` returns an iterator over the value of a `Some`. It yields the value once for a
+   * `Some` and nothing for a `None`.
+   *
+   * Example:
+   * ```
+   * [...new Some(1).iter()]  // [1]
+   * [...new None().iter()]   // []
+   * ```
+   */
+  abstract iter(): IterableIterator<T>
+
+  /**
+   * `toJSON` returns the JSON representation of this `Maybe`. It is called by `JSON.stringify`,
+   * see {@link MaybeJSON} for the format.
+   */
+  abstract toJSON(): MaybeJSON<T>
+
+  /**
+   * `toString` returns a readable representation of this `Maybe`, which is also what template
+   * strings show.
+   *
+   * Example:
+   * ```
+   * new Some({ id: 1 }).toString()  // Some({ id: 1 })
+   * `${new None()}`                 // None
+   * ```
+   */
+  public toString(): string {
+    return this.isSome() ? `Some(${show(this.value)})` : 'None'
+  }
+
+  /**
+   * `Symbol.toStringTag` is the tag, so `Object.prototype.toString` reports a `Some` as
+   * `[object Some]` and a `None` as `[object None]`.
+   */
+  get [Symbol.toStringTag](): string {
+    return this.__tag
+  }
 }
 
-export class Some<T> extends Maybe<T> {
+Object.defineProperty(MaybeBase.prototype, maybeBrand, { value: true })
+
+/**
+ * Node's `util.inspect`, and so `console.log`, shows a `Maybe` as `Some(...)` or `None`.
+ */
+Object.defineProperty(MaybeBase.prototype, inspectSymbol, {
+  value: function (this: Maybe<unknown>, depth: number, options: InspectOptions, inspect?: Inspect): string {
+    return inspectContainer(this.__tag, this.isSome() ? [this.value] : [], depth, options, inspect)
+  },
+})
+
+export const Maybe = MaybeBase
+
+export class Some<T> extends MaybeBase<T> {
   readonly __tag = 'Some';
   readonly value: T
 
   constructor(value: T) {
     super()
     this.value = value
+    freeze(this)
   }
 
-  public contains(value: T): boolean {
-    return this.value === value
+  public contains(value: T, eq: Eq<T> = strictEqual): boolean {
+    return eq(this.value, value)
   }
 
   public unwrap(): T {
     return this.value
   }
 
+  public expect(_: string): T {
+    return this.value
+  }
+
   public unwrapOr(_: T): T {
     return this.value
   }
@@ -205,17 +763,115 @@ export class Some<T> extends Maybe<T> {
   public flatMap<U>(fn: (value: T) => Maybe<U>): Maybe<U> {
     return fn(this.value)
   }
+
+  public filter<S extends T>(predicate: (value: T) => value is S): Maybe<S>
+  public filter(predicate: (value: T) => boolean): Maybe<T>
+  public filter(predicate: (value: T) => boolean): Maybe<T> {
+    return predicate(this.value) ? this : none()
+  }
+
+  public or(_: Maybe<T>): Maybe<T> {
+    return this
+  }
+
+  public orElse(_: () => Maybe<T>): Maybe<T> {
+    return this
+  }
+
+  public xor(other: Maybe<T>): Maybe<T> {
+    return other.isNone() ? this : none()
+  }
+
+  public zip<U>(other: Maybe<U>): Maybe<[T, U]> {
+    return other.map((value): [T, U] => [this.value, value])
+  }
+
+  public zipWith<U,R>(other: Maybe<U>, fn: (value: T, other: U) => R): Maybe<R> {
+    return other.map((value) => fn(this.value, value))
+  }
+
+  public unzip<A,B>(this: Maybe<[A, B]>): [Maybe<A>, Maybe<B>] {
+    const [a, b] = this.unwrap()
+    return [new Some(a), new Some(b)]
+  }
+
+  public okOr<E>(_: E): Result<T,E> {
+    return new Ok(this.value)
+  }
+
+  public okOrElse<E>(_: () => E): Result<T,E> {
+    return new Ok(this.value)
+  }
+
+  public unwrapOrElse(_: () => T): T {
+    return this.value
+  }
+
+  public flatten<U>(this: Maybe<Maybe<U>>): Maybe<U> {
+    return this.unwrap()
+  }
+
+  public transpose<U,E>(this: Maybe<Result<U,E>>): Result<Maybe<U>,E> {
+    return this.unwrap().map((value) => new Some(value))
+  }
+
+  public tap(fn: (value: T) => void): Maybe<T> {
+    fn(this.value)
+    return this
+  }
+
+  public toNullable(): T | null {
+    return this.value
+  }
+
+  public toUndefined(): T | undefined {
+    return this.value
+  }
+
+  public isSomeAnd(predicate: (value: T) => boolean): boolean {
+    return predicate(this.value)
+  }
+
+  public iter(): IterableIterator<T> {
+    return [this.value][Symbol.iterator]()
+  }
+
+  public toJSON(): MaybeJSON<T> {
+    return { __tag: 'Some', value: this.value }
+  }
 }
 
-export class None<T=never> extends Maybe<T> {
+/**
+ * `sharedNone` is the single `None`, returned by its constructor once it exists.
+ */
+let sharedNone: None<unknown> | undefined = undefined
+
+export class None<T=never> extends MaybeBase<T> {
   readonly __tag = 'None';
 
-  public contains(_: T): boolean {
+  /**
+   * There is a single `None`: constructing one returns it, so a `None` never allocates and
+   * `new None() === new None()`. It is frozen when it is created, as the library loads, unless
+   * `NODE_ENV` is `production`.
+   */
+  constructor() {
+    super()
+    if (sharedNone !== undefined) {
+      return sharedNone as None<T>
+    }
+    freeze(this)
+  }
+
+  public contains(_: T, __?: Eq<T>): boolean {
     return false
   }
 
   public unwrap(): T{
-    throw new Error("Unwrap called on None value");
+    throw new UnwrapNoneError();
+  }
+
+  public expect(message: string): T {
+    throw new UnwrapNoneError(message)
   }
 
   public unwrapOr(def: T): T {
@@ -223,7 +879,7 @@ export class None<T=never> extends Maybe<T> {
   }
 
   public map<U>(_: (value: T) => U): Maybe<U> {
-    return new None()
+    return none()
   }
 
   public mapOr<U>(_: (value: T) => U, def: U): Maybe<U> {
@@ -231,7 +887,81 @@ export class None<T=never> extends Maybe<T> {
   }
 
   public flatMap<U>(_: (value: T) => Maybe<U>): Maybe<U> {
-    return new None()
+    return none()
+  }
+
+  public filter<S extends T>(predicate: (value: T) => value is S): Maybe<S>
+  public filter(predicate: (value: T) => boolean): Maybe<T>
+  public filter(_: (value: T) => boolean): Maybe<T> {
+    return this
+  }
+
+  public or(other: Maybe<T>): Maybe<T> {
+    return other
+  }
+
+  public orElse(fn: () => Maybe<T>): Maybe<T> {
+    return fn()
+  }
+
+  public xor(other: Maybe<T>): Maybe<T> {
+    return other
+  }
+
+  public zip<U>(_: Maybe<U>): Maybe<[T, U]> {
+    return none()
+  }
+
+  public zipWith<U,R>(_: Maybe<U>, __: (value: T, other: U) => R): Maybe<R> {
+    return none()
+  }
+
+  public unzip<A,B>(this: Maybe<[A, B]>): [Maybe<A>, Maybe<B>] {
+    return [none(), none()]
+  }
+
+  public okOr<E>(error: E): Result<T,E> {
+    return new Err(error)
+  }
+
+  public okOrElse<E>(fn: () => E): Result<T,E> {
+    return new Err(fn())
+  }
+
+  public unwrapOrElse(fn: () => T): T {
+    return fn()
+  }
+
+  public flatten<U>(this: Maybe<Maybe<U>>): Maybe<U> {
+    return none()
+  }
+
+  public transpose<U,E>(this: Maybe<Result<U,E>>): Result<Maybe<U>,E> {
+    return new Ok(none())
+  }
+
+  public tap(_: (value: T) => void): Maybe<T> {
+    return this
+  }
+
+  public toNullable(): T | null {
+    return null
+  }
+
+  public toUndefined(): T | undefined {
+    return undefined
+  }
+
+  public isSomeAnd(_: (value: T) => boolean): boolean {
+    return false
+  }
+
+  public iter(): IterableIterator<T> {
+    return [][Symbol.iterator]()
+  }
+
+  public toJSON(): MaybeJSON<T> {
+    return { __tag: 'None' }
   }
 }
 
@@ -239,6 +969,8 @@ export const some = <T>(value: T): Maybe<T> => {
   return new Some(value);
 }
 
+sharedNone = new None()
+
 export const none = <_>(): Maybe<_> => {
-  return new None()
+  return sharedNone as None<_>
 }
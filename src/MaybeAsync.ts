@@ -0,0 +1,161 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Maybe, Some, None, none } from './Maybe';
+import { ResultAsync } from './ResultAsync';
+
+/**
+ * `MaybeAsyncMatcher` is the asynchronous counterpart of the matcher used by
+ * {@link Maybe.match}. Both branches may return a plain value or a promise.
+ */
+interface MaybeAsyncMatcher<T,U,V> {
+  Some: (some: T) => U | PromiseLike<U>;
+  None: () => V | PromiseLike<V>;
+}
+
+/**
+ * `MaybeAsync` wraps a `Promise<Maybe<T>>` and exposes the same operations as {@link Maybe}
+ * but accepts callbacks that may return promises. It is thenable so it can be awaited
+ * directly to get the underlying `Some` or `None` back.
+ *
+ * Example:
+ * ```
+ * const cached: MaybeAsync<User> = new MaybeAsync(cache.get(id));
+ * const name: Maybe<string> = await cached.map((user) => user.name);
+ * ```
+ */
+export class MaybeAsync<T> implements PromiseLike<Maybe<T>> {
+  private readonly promise: Promise<Maybe<T>>
+
+  constructor(promise: PromiseLike<Maybe<T>>) {
+    this.promise = Promise.resolve(promise)
+  }
+
+  /**
+   * `fromMaybe` lifts a synchronous `Maybe` into a `MaybeAsync`.
+   */
+  static fromMaybe<T>(maybe: Maybe<T>): MaybeAsync<T> {
+    return new MaybeAsync(Promise.resolve(maybe))
+  }
+
+  /**
+   * `fromPromise` creates a `MaybeAsync` that resolves to a `Some` containing the resolved
+   * value of the supplied promise.
+   *
+   * Example:
+   * ```
+   * await MaybeAsync.fromPromise(Promise.resolve(10)) // Some(10)
+   * ```
+   */
+  static fromPromise<T>(promise: PromiseLike<T>): MaybeAsync<T> {
+    return new MaybeAsync(Promise.resolve(promise).then((value): Maybe<T> => new Some(value)))
+  }
+
+  /**
+   * `map` applies the supplied function to the value of a resolved `Some`. The function may
+   * return a promise which will be awaited before it is wrapped in a new `Some`.
+   *
+   * Example:
+   * ```
+   * const some: MaybeAsync<string> = someAsync("string");
+   * some.map(async (value) => value.length) // MaybeAsync resolving to Some(6)
+   * ```
+   */
+  public map<U>(fn: (value: T) => U | PromiseLike<U>): MaybeAsync<U> {
+    return new MaybeAsync(this.promise.then((maybe) => maybe.match<PromiseLike<Maybe<U>>, Maybe<U>>({
+      'Some': async (value) => new Some(await fn(value)),
+      'None': () => none(),
+    })))
+  }
+
+  /**
+   * `mapOr` applies the supplied function to the value of a resolved `Some`, otherwise it
+   * resolves to a `Some` containing the supplied default. See {@link Maybe.mapOr}.
+   */
+  public mapOr<U>(fn: (value: T) => U | PromiseLike<U>, def: U): MaybeAsync<U> {
+    return new MaybeAsync(this.promise.then((maybe) => maybe.match<PromiseLike<Maybe<U>>, Maybe<U>>({
+      'Some': async (value) => new Some(await fn(value)),
+      'None': () => new Some(def),
+    })))
+  }
+
+  /**
+   * `flatMap` applies the supplied function to the value of a resolved `Some`. The function may
+   * return a `Maybe`, a `MaybeAsync` or a promise of a `Maybe`.
+   *
+   * Example:
+   * ```
+   * const id: MaybeAsync<string> = someAsync("id");
+   * id.flatMap((id) => cache.lookup(id)) // lookup returns Promise<Maybe<User>>
+   * ```
+   */
+  public flatMap<U>(fn: (value: T) => Maybe<U> | PromiseLike<Maybe<U>>): MaybeAsync<U> {
+    return new MaybeAsync(this.promise.then((maybe) => maybe.match<Maybe<U> | PromiseLike<Maybe<U>>, Maybe<U>>({
+      'Some': (value) => fn(value),
+      'None': () => none(),
+    })))
+  }
+
+  /**
+   * `match` resolves to the result of the `Some` or `None` branch of the supplied matcher. See
+   * {@link Maybe.match}.
+   *
+   * Example:
+   * ```
+   * const some: MaybeAsync<number> = someAsync(10);
+   * await some.match({
+   *     'Some': async (value) => value * 2,
+   *     'None': () => 2,
+   * }); // 20
+   * ```
+   */
+  public match<U,V>(matcher: MaybeAsyncMatcher<T,U,V>): Promise<U | V> {
+    return this.promise.then((maybe) => maybe.match(matcher))
+  }
+
+  /**
+   * `unwrapOr` resolves to the value contained in the `Some` or the supplied value.
+   */
+  public unwrapOr(value: T): Promise<T> {
+    return this.promise.then((maybe) => maybe.unwrapOr(value))
+  }
+
+  /**
+   * `okOr` converts this `MaybeAsync` into a {@link ResultAsync}, resolving to an `Ok` with the
+   * value of a `Some` or an `Err` with the supplied error for a `None`.
+   *
+   * Example:
+   * ```
+   * const none: MaybeAsync<number> = noneAsync();
+   * await none.okOr("not found") // Err("not found")
+   * ```
+   */
+  public okOr<E>(error: E): ResultAsync<T,E> {
+    return new ResultAsync(this.promise.then((maybe) => maybe.okOr(error)))
+  }
+
+  /**
+   * `bind` is what `yield*` is used with inside {@link Maybe.genAsync}. See {@link Maybe.bind}.
+   */
+  public async *bind(): AsyncGenerator<None, T, unknown> {
+    return yield* (await this.promise).bind()
+  }
+
+  public then<A = Maybe<T>, B = never>(
+    onfulfilled?: ((value: Maybe<T>) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null,
+  ): PromiseLike<A | B> {
+    return this.promise.then(onfulfilled, onrejected)
+  }
+}
+
+export const someAsync = <T>(value: T): MaybeAsync<T> => {
+  return new MaybeAsync(Promise.resolve(new Some(value)))
+}
+
+export const noneAsync = <_>(): MaybeAsync<_> => {
+  return new MaybeAsync(Promise.resolve(none<_>()))
+}
@@ -0,0 +1,187 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { ReaderResultAsync } from './ReaderResultAsync';
+import { Result, Ok, Err } from './Result';
+import { ResultAsync } from './ResultAsync';
+
+/**
+ * `ReaderResult` is a computation returning a `Result` that needs an environment `Env`, such as
+ * a logger, a database client or the configuration, to run. The environment is supplied once
+ * to {@link ReaderResult.run} instead of being threaded through every step: a step reads it
+ * with {@link ReaderResult.ask} and the environment of a chain is the intersection of the
+ * environments of its steps.
+ *
+ * Example:
+ * ```
+ * const findUser = (id: string) => ReaderResult.ask<{ db: Db }>().flatMap(({ db }) => db.findUser(id));
+ * const greet = (id: string) => findUser(id).flatMap((user) =>
+ *   ReaderResult.asks(({ logger }: { logger: Logger }) => logger.info(`Hello ${user.name}`)));
+ *
+ * greet("1").run({ db, logger }) // Result<void, DbError>
+ * ```
+ */
+export class ReaderResult<Env,T,E> {
+  private readonly fn: (env: Env) => Result<T,E>
+
+  constructor(fn: (env: Env) => Result<T,E>) {
+    this.fn = fn
+  }
+
+  /**
+   * `ok` creates a `ReaderResult` returning an `Ok` with the supplied value in any environment.
+   */
+  static ok<T, E = never>(value: T): ReaderResult<unknown, T, E> {
+    return new ReaderResult(() => new Ok(value))
+  }
+
+  /**
+   * `err` creates a `ReaderResult` returning an `Err` with the supplied error in any
+   * environment.
+   */
+  static err<E, T = never>(error: E): ReaderResult<unknown, T, E> {
+    return new ReaderResult(() => new Err(error))
+  }
+
+  /**
+   * `fromResult` creates a `ReaderResult` returning the supplied `Result` in any environment.
+   */
+  static fromResult<T,E>(result: Result<T,E>): ReaderResult<unknown, T, E> {
+    return new ReaderResult(() => result)
+  }
+
+  /**
+   * `ask` creates a `ReaderResult` returning its environment as an `Ok`. It is how a step
+   * declares what it needs from the environment.
+   *
+   * Example:
+   * ```
+   * ReaderResult.ask<{ port: number }>().map(({ port }) => `http://localhost:${port}`).run({ port: 80 }) // Ok("http://localhost:80")
+   * ```
+   */
+  static ask<Env>(): ReaderResult<Env, Env, never> {
+    return new ReaderResult((env: Env) => new Ok(env))
+  }
+
+  /**
+   * `asks` creates a `ReaderResult` returning the supplied function applied to the
+   * environment as an `Ok`.
+   */
+  static asks<Env,T>(fn: (env: Env) => T): ReaderResult<Env, T, never> {
+    return new ReaderResult((env: Env) => new Ok(fn(env)))
+  }
+
+  /**
+   * `map` applies the supplied function to the value of an `Ok`.
+   */
+  public map<U>(fn: (value: T) => U): ReaderResult<Env,U,E> {
+    return new ReaderResult((env: Env) => this.fn(env).map(fn))
+  }
+
+  /**
+   * `mapErr` applies the supplied function to the error of an `Err`.
+   */
+  public mapErr<F>(fn: (error: E) => F): ReaderResult<Env,T,F> {
+    return new ReaderResult((env: Env) => this.fn(env).mapErr(fn))
+  }
+
+  /**
+   * `flatMap` applies the supplied function to the value of an `Ok`. The function may return a
+   * plain `Result` or another `ReaderResult`, which runs in the same environment, so the
+   * environment of the result is the intersection of both.
+   *
+   * Example:
+   * ```
+   * const config = ReaderResult.ask<{ config: Config }>();
+   * const users = config.flatMap(({ config }) => ReaderResult.ask<{ db: Db }>().flatMap(({ db }) => db.users(config.limit)));
+   * users.run({ config, db }) // requires both { config: Config } and { db: Db }
+   * ```
+   */
+  public flatMap<R,U,F>(fn: (value: T) => ReaderResult<R,U,F> | Result<U,F>): ReaderResult<Env & R, U, E | F> {
+    return new ReaderResult((env: Env & R): Result<U, E | F> => this.fn(env).flatMap((value) => runStep(fn(value), env)))
+  }
+
+  /**
+   * `orElse` applies the supplied function to the error of an `Err`. Like
+   * {@link ReaderResult.flatMap} it may return a `Result` or another `ReaderResult`.
+   */
+  public orElse<R,U,F>(fn: (error: E) => ReaderResult<R,U,F> | Result<U,F>): ReaderResult<Env & R, T | U, F> {
+    return new ReaderResult((env: Env & R): Result<T | U, F> => this.fn(env).orElse((error) => runStep(fn(error), env)))
+  }
+
+  /**
+   * `local` runs this `ReaderResult` in the environment computed by the supplied function from
+   * an outer environment, such as a part of it or an environment with a child logger.
+   *
+   * Example:
+   * ```
+   * const query = ReaderResult.ask<{ db: Db }>().flatMap(({ db }) => db.users());
+   * query.local((app: App) => ({ db: app.replica })).run(app)
+   * ```
+   */
+  public local<Outer>(fn: (env: Outer) => Env): ReaderResult<Outer,T,E> {
+    return new ReaderResult((env: Outer) => this.fn(fn(env)))
+  }
+
+  /**
+   * `provide` supplies a part of the environment now. The remaining environment is only
+   * required by {@link ReaderResult.run}, and a supplied value takes precedence over the one
+   * passed to `run`. The getters and class methods of the environment passed to `run` keep
+   * working, and it may be left out once every part has been provided.
+   *
+   * Example:
+   * ```
+   * const handler = users.provide({ db });
+   * handler.run({ config }) // only { config: Config } is left to supply
+   * ```
+   */
+  public provide<P extends Partial<Env>>(provided: P): ReaderResult<Omit<Env, keyof P>, T, E> {
+    return new ReaderResult((env: Omit<Env, keyof P>) => this.fn(withProvided<Env>(env, provided)))
+  }
+
+  /**
+   * `run` runs the computation in the supplied environment and returns its `Result`.
+   */
+  public run(env: Env): Result<T,E> {
+    return this.fn(env)
+  }
+
+  /**
+   * `toAsync` lifts this `ReaderResult` into a {@link ReaderResultAsync} allowing it to be
+   * chained with asynchronous steps.
+   */
+  public toAsync(): ReaderResultAsync<Env,T,E> {
+    return new ReaderResultAsync((env: Env) => ResultAsync.fromResult(this.fn(env)))
+  }
+}
+
+/**
+ * `runStep` turns what a function passed to `flatMap` or `orElse` returned into a `Result`,
+ * running a `ReaderResult` in the supplied environment.
+ */
+const runStep = <R,U,F>(step: ReaderResult<R,U,F> | Result<U,F>, env: R): Result<U,F> => {
+  return step instanceof ReaderResult ? step.run(env) : step
+}
+
+/**
+ * `withProvided` returns an environment with the properties of `provided` on top of those of
+ * `env`. It has the prototype of `env` and copies the property descriptors rather than the
+ * values, so the getters and class methods of `env` keep working. A missing `env` is taken as
+ * an empty one.
+ */
+export const withProvided = <Env>(env: unknown, provided: unknown): Env => {
+  const base = env === undefined || env === null ? {} : env
+  const merged = Object.create(Object.getPrototypeOf(base))
+  copyProperties(merged, base)
+  copyProperties(merged, provided)
+  return merged
+}
+
+const copyProperties = (target: unknown, source: unknown) => {
+  Object.getOwnPropertyNames(source).forEach((key) => {
+    Object.defineProperty(target, key, Object.getOwnPropertyDescriptor(source, key) as PropertyDescriptor)
+  })
+}
@@ -0,0 +1,145 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { ReaderResult, withProvided } from './ReaderResult';
+import { Result, Ok, Err, propagateErr } from './Result';
+import { ResultAsync } from './ResultAsync';
+
+/**
+ * `Step` is what the functions passed to {@link ReaderResultAsync.flatMap} may return: a
+ * `Result`, possibly asynchronous, or a computation needing an environment `R`.
+ */
+type Step<R,U,F> = ReaderResultAsync<R,U,F> | ReaderResult<R,U,F> | Result<U,F> | PromiseLike<Result<U,F>>
+
+/**
+ * `ReaderResultAsync` is the asynchronous counterpart of {@link ReaderResult}. Its callbacks
+ * may return promises and {@link ReaderResultAsync.run} returns a {@link ResultAsync}.
+ *
+ * Example:
+ * ```
+ * const findUser = (id: string) => ReaderResultAsync.ask<{ db: Db }>().flatMap(({ db }) => db.findUser(id));
+ * const user = await findUser("1").map((user) => user.name).run({ db }) // Result<string, DbError>
+ * ```
+ */
+export class ReaderResultAsync<Env,T,E> {
+  private readonly fn: (env: Env) => ResultAsync<T,E>
+
+  constructor(fn: (env: Env) => PromiseLike<Result<T,E>>) {
+    this.fn = (env) => new ResultAsync(fn(env))
+  }
+
+  /**
+   * `ok` creates a `ReaderResultAsync` resolving to an `Ok` with the supplied value in any
+   * environment.
+   */
+  static ok<T, E = never>(value: T): ReaderResultAsync<unknown, T, E> {
+    return new ReaderResultAsync(() => Promise.resolve(new Ok(value)))
+  }
+
+  /**
+   * `err` creates a `ReaderResultAsync` resolving to an `Err` with the supplied error in any
+   * environment.
+   */
+  static err<E, T = never>(error: E): ReaderResultAsync<unknown, T, E> {
+    return new ReaderResultAsync(() => Promise.resolve(new Err(error)))
+  }
+
+  /**
+   * `fromResult` creates a `ReaderResultAsync` resolving to the supplied `Result`, or the result
+   * of the supplied `ResultAsync`, in any environment.
+   */
+  static fromResult<T,E>(result: Result<T,E> | PromiseLike<Result<T,E>>): ReaderResultAsync<unknown, T, E> {
+    return new ReaderResultAsync(() => Promise.resolve(result))
+  }
+
+  /**
+   * `ask` creates a `ReaderResultAsync` resolving to its environment as an `Ok`. See
+   * {@link ReaderResult.ask}.
+   */
+  static ask<Env>(): ReaderResultAsync<Env, Env, never> {
+    return new ReaderResultAsync((env: Env) => Promise.resolve(new Ok(env)))
+  }
+
+  /**
+   * `asks` creates a `ReaderResultAsync` resolving to the supplied function applied to the
+   * environment as an `Ok`. The function may return a promise.
+   */
+  static asks<Env,T>(fn: (env: Env) => T | PromiseLike<T>): ReaderResultAsync<Env, T, never> {
+    return new ReaderResultAsync((env: Env) => Promise.resolve(fn(env)).then((value) => new Ok(value)))
+  }
+
+  /**
+   * `map` applies the supplied function to the value of an `Ok`. The function may return a
+   * promise.
+   */
+  public map<U>(fn: (value: T) => U | PromiseLike<U>): ReaderResultAsync<Env,U,E> {
+    return new ReaderResultAsync((env: Env) => this.fn(env).map(fn))
+  }
+
+  /**
+   * `mapErr` applies the supplied function to the error of an `Err`. The function may return a
+   * promise.
+   */
+  public mapErr<F>(fn: (error: E) => F | PromiseLike<F>): ReaderResultAsync<Env,T,F> {
+    return new ReaderResultAsync((env: Env) => this.fn(env).mapErr(fn))
+  }
+
+  /**
+   * `flatMap` applies the supplied function to the value of an `Ok`. The function may return a
+   * `Result`, a promise of one, such as a `ResultAsync`, or another `ReaderResult` or
+   * `ReaderResultAsync`, which runs in the same environment. The environment of the result is
+   * the intersection of both.
+   */
+  public flatMap<R,U,F>(fn: (value: T) => Step<R,U,F>): ReaderResultAsync<Env & R, U, E | F> {
+    return new ReaderResultAsync((env: Env & R) => this.fn(env).then((result): Result<U, E | F> | PromiseLike<Result<U, E | F>> => {
+      return result.isOk() ? runStep(fn(result.value), env) : propagateErr(result, result.error)
+    }))
+  }
+
+  /**
+   * `orElse` applies the supplied function to the error of an `Err`. Like
+   * {@link ReaderResultAsync.flatMap} it may return any kind of `Result` or computation.
+   */
+  public orElse<R,U,F>(fn: (error: E) => Step<R,U,F>): ReaderResultAsync<Env & R, T | U, F> {
+    return new ReaderResultAsync((env: Env & R) => this.fn(env).then((result): Result<T | U, F> | PromiseLike<Result<T | U, F>> => {
+      return result.isOk() ? new Ok(result.value) : runStep(fn(result.error), env)
+    }))
+  }
+
+  /**
+   * `local` runs this `ReaderResultAsync` in the environment computed by the supplied function
+   * from an outer environment. See {@link ReaderResult.local}.
+   */
+  public local<Outer>(fn: (env: Outer) => Env): ReaderResultAsync<Outer,T,E> {
+    return new ReaderResultAsync((env: Outer) => this.fn(fn(env)))
+  }
+
+  /**
+   * `provide` supplies a part of the environment now. See {@link ReaderResult.provide}.
+   */
+  public provide<P extends Partial<Env>>(provided: P): ReaderResultAsync<Omit<Env, keyof P>, T, E> {
+    return new ReaderResultAsync((env: Omit<Env, keyof P>) => this.fn(withProvided<Env>(env, provided)))
+  }
+
+  /**
+   * `run` runs the computation in the supplied environment and returns its {@link ResultAsync},
+   * which can be awaited to get the `Result`.
+   */
+  public run(env: Env): ResultAsync<T,E> {
+    return this.fn(env)
+  }
+}
+
+/**
+ * `runStep` turns what a function passed to `flatMap` or `orElse` returned into a `Result`,
+ * running a computation in the supplied environment.
+ */
+const runStep = <R,U,F>(step: Step<R,U,F>, env: R): Result<U,F> | PromiseLike<Result<U,F>> => {
+  if (step instanceof ReaderResultAsync || step instanceof ReaderResult) {
+    return step.run(env)
+  }
+  return step
+}
@@ -0,0 +1,297 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Result, Ok, Err } from './Result';
+import { ResultAsync } from './ResultAsync';
+import { TaggedError } from './TaggedError';
+
+/**
+ * `Clock` is the source of time used by the resilience functions. The default is
+ * {@link systemClock}, tests can supply their own to control time.
+ */
+export interface Clock {
+  now(): number;
+  setTimeout(fn: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * `systemClock` uses `Date.now` and the global timers, so it also works with Jest's fake
+ * timers.
+ */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+}
+
+/**
+ * `RetryOptions` configures {@link retry}.
+ */
+export interface RetryOptions<E> {
+  /** The number of attempts, including the first one. Defaults to 3. */
+  attempts?: number;
+  /** The delay in milliseconds before a retry, or a function of the retry counting from 1. Defaults to 0. */
+  backoff?: number | ((retry: number) => number);
+  /** The fraction, between 0 and 1, of the delay that is randomly taken off. Defaults to 0. */
+  jitter?: number;
+  /** Whether an error is worth retrying. Defaults to retrying every error. */
+  shouldRetry?: (error: E) => boolean;
+  /** The clock waiting between attempts. Defaults to {@link systemClock}. */
+  clock?: Clock;
+  /** The source of the jitter, returning a number between 0 and 1. Defaults to `Math.random`. */
+  random?: () => number;
+}
+
+/**
+ * `TimeoutError` is the error of {@link withTimeout} when no `onTimeout` is supplied.
+ */
+export class TimeoutError extends TaggedError<'TimeoutError'> {
+  readonly ms: number
+
+  constructor(ms: number) {
+    super('TimeoutError', `Timed out after ${ms}ms`)
+    this.ms = ms
+  }
+}
+
+/**
+ * `CircuitOpenError` is the error of {@link CircuitBreaker.run} while the circuit is open.
+ */
+export class CircuitOpenError extends TaggedError<'CircuitOpenError'> {
+  constructor() {
+    super('CircuitOpenError', 'The circuit is open')
+  }
+}
+
+/**
+ * `exponentialBackoff` returns a backoff for {@link retry} that doubles the delay on every
+ * retry, starting at `base` and never exceeding `max`.
+ *
+ * Example:
+ * ```
+ * const backoff = exponentialBackoff(100, 1000);
+ * [1, 2, 3, 4, 5].map(backoff) // [100, 200, 400, 800, 1000]
+ * ```
+ */
+export const exponentialBackoff = (base: number, max = Infinity) => (retry: number): number => {
+  return Math.min(base * Math.pow(2, retry - 1), max)
+}
+
+/**
+ * `retry` calls the supplied function until it returns an `Ok`, an error that should not be
+ * retried or it ran out of attempts, waiting for the backoff between attempts. The last
+ * result is returned. The function is passed the number of the attempt, counting from 1.
+ *
+ * Example:
+ * ```
+ * const user = await retry(() => fetchUser(id), {
+ *   attempts: 5,
+ *   backoff: exponentialBackoff(100),
+ *   jitter: 0.5,
+ *   shouldRetry: (error) => error.status >= 500,
+ * });
+ * ```
+ */
+export const retry = <T,E>(fn: (attempt: number) => PromiseLike<Result<T,E>>, options: RetryOptions<E> = {}): ResultAsync<T,E> => {
+  const {
+    attempts = 3,
+    backoff = 0,
+    jitter = 0,
+    shouldRetry = () => true,
+    clock = systemClock,
+    random = Math.random,
+  } = options
+  const delayOf = (retry: number) => {
+    const delay = typeof backoff === 'number' ? backoff : backoff(retry)
+    return delay * (1 - jitter * random())
+  }
+  const attempt = async (n: number): Promise<Result<T,E>> => {
+    const result = await fn(n)
+    if (result.isOk() || n >= attempts || !shouldRetry(result.unwrapErr())) {
+      return result
+    }
+    await sleep(clock, delayOf(n))
+    return attempt(n + 1)
+  }
+  return new ResultAsync(attempt(1))
+}
+
+/**
+ * `withTimeout` returns the result of the supplied function, or an `Err` with the error of
+ * `onTimeout` if it takes longer than `ms` milliseconds. Without `onTimeout` the error is a
+ * {@link TimeoutError}. The function is not cancelled, its result is ignored. If the function
+ * throws, the returned `ResultAsync` rejects.
+ *
+ * Example:
+ * ```
+ * await withTimeout(() => fetchUser(id), 1000)                    // Result<User, FetchError | TimeoutError>
+ * await withTimeout(() => fetchUser(id), 1000, () => "timed out") // Result<User, FetchError | string>
+ * ```
+ */
+export function withTimeout<T,E>(fn: () => PromiseLike<Result<T,E>>, ms: number, onTimeout?: undefined, clock?: Clock): ResultAsync<T, E | TimeoutError>
+export function withTimeout<T,E,F>(fn: () => PromiseLike<Result<T,E>>, ms: number, onTimeout: () => F, clock?: Clock): ResultAsync<T, E | F>
+export function withTimeout<T,E,F>(
+  fn: () => PromiseLike<Result<T,E>>,
+  ms: number,
+  onTimeout: () => F | TimeoutError = () => new TimeoutError(ms),
+  clock: Clock = systemClock,
+): ResultAsync<T, E | F | TimeoutError> {
+  return new ResultAsync(new Promise<Result<T, E | F | TimeoutError>>((resolve, reject) => {
+    const timer = clock.setTimeout(() => resolve(new Err(onTimeout())), ms)
+    const call = callAsync(fn)
+    // The call is abandoned after a timeout, so a later rejection must not be reported as unhandled.
+    call.catch(() => undefined)
+    call.then(
+      (result) => {
+        clock.clearTimeout(timer)
+        resolve(result)
+      },
+      (reason) => {
+        clock.clearTimeout(timer)
+        reject(reason)
+      },
+    )
+  }))
+}
+
+/**
+ * `fallback` returns the result of `primary`, or the result of `secondary` called with the
+ * error if `primary` returns an `Err`.
+ *
+ * Example:
+ * ```
+ * const config = await fallback(() => fetchRemoteConfig(), () => readLocalConfig());
+ * ```
+ */
+export const fallback = <T,E,U,F>(primary: () => PromiseLike<Result<T,E>>, secondary: (error: E) => PromiseLike<Result<U,F>>): ResultAsync<T | U, F> => {
+  return new ResultAsync(Promise.resolve(primary()).then((result): PromiseLike<Result<T | U, F>> | Result<T | U, F> => {
+    return result.isOk() ? new Ok<T | U, F>(result.value) : secondary(result.unwrapErr())
+  }))
+}
+
+/**
+ * `CircuitState` is the state of a {@link CircuitBreaker}.
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+/**
+ * `CircuitBreakerOptions` configures a {@link CircuitBreaker}.
+ */
+export interface CircuitBreakerOptions<E> {
+  /** The number of consecutive failures opening the circuit. Defaults to 5. */
+  failureThreshold?: number;
+  /** The milliseconds the circuit stays open before a trial call is let through. Defaults to 30000. */
+  resetTimeout?: number;
+  /** Whether an error counts as a failure. Defaults to counting every error. */
+  isFailure?: (error: E) => boolean;
+  /** The clock timing the reset. Defaults to {@link systemClock}. */
+  clock?: Clock;
+}
+
+/**
+ * `CircuitBreaker` stops calling a failing service for a while. After `failureThreshold`
+ * consecutive failures the circuit opens and {@link CircuitBreaker.run} returns a
+ * {@link CircuitOpenError} without calling the function. Once `resetTimeout` has passed a
+ * single trial call is let through: the circuit closes if it succeeds and opens again if not.
+ *
+ * Example:
+ * ```
+ * const breaker = new CircuitBreaker<FetchError>({ failureThreshold: 3, resetTimeout: 10000 });
+ * const user = await breaker.run(() => fetchUser(id)); // Result<User, FetchError | CircuitOpenError>
+ * ```
+ */
+export class CircuitBreaker<E> {
+  private readonly failureThreshold: number
+  private readonly resetTimeout: number
+  private readonly isFailure: (error: E) => boolean
+  private readonly clock: Clock
+  private failures = 0
+  private openedAt = 0
+  private current: CircuitState = 'closed'
+  private trialRunning = false
+
+  constructor(options: CircuitBreakerOptions<E> = {}) {
+    this.failureThreshold = options.failureThreshold === undefined ? 5 : options.failureThreshold
+    this.resetTimeout = options.resetTimeout === undefined ? 30000 : options.resetTimeout
+    this.isFailure = options.isFailure || (() => true)
+    this.clock = options.clock || systemClock
+  }
+
+  /**
+   * `state` is `closed` while calls go through, `open` while they are rejected and
+   * `half-open` once a trial call may go through.
+   */
+  get state(): CircuitState {
+    if (this.current === 'open' && this.clock.now() - this.openedAt >= this.resetTimeout) {
+      return 'half-open'
+    }
+    return this.current
+  }
+
+  /**
+   * `run` calls the supplied function unless the circuit is open, and records whether its
+   * result is a failure. While the circuit is half-open only the trial call is let through, and
+   * only its result closes or opens the circuit again. The results of calls started before the
+   * circuit opened are ignored. A function that throws is treated like one returning a rejected
+   * promise: it counts as a failure and the returned `ResultAsync` rejects.
+   */
+  public run<T>(fn: () => PromiseLike<Result<T,E>>): ResultAsync<T, E | CircuitOpenError> {
+    const state = this.state
+    if (state === 'open' || (state === 'half-open' && this.trialRunning)) {
+      return new ResultAsync(Promise.resolve(new Err<T, E | CircuitOpenError>(new CircuitOpenError())))
+    }
+    const trial = state === 'half-open'
+    if (trial) {
+      this.trialRunning = true
+    }
+    return new ResultAsync(callAsync(fn).then((result) => {
+      this.settle(trial, result.isErr() && this.isFailure(result.unwrapErr()))
+      return result
+    }, (reason) => {
+      this.settle(trial, true)
+      throw reason
+    }))
+  }
+
+  private settle(trial: boolean, failed: boolean) {
+    if (trial) {
+      this.trialRunning = false
+    } else if (this.current !== 'closed') {
+      return
+    }
+    this.record(failed)
+  }
+
+  private record(failed: boolean) {
+    if (!failed) {
+      this.failures = 0
+      this.current = 'closed'
+      return
+    }
+    this.failures++
+    if (this.current !== 'closed' || this.failures >= this.failureThreshold) {
+      this.current = 'open'
+      this.openedAt = this.clock.now()
+    }
+  }
+}
+
+/**
+ * `callAsync` calls the supplied function and returns its result as a promise, which rejects if
+ * the function throws instead of returning.
+ */
+const callAsync = <T>(fn: () => PromiseLike<T>): Promise<T> => {
+  try {
+    return Promise.resolve(fn())
+  } catch (error) {
+    return Promise.reject(error)
+  }
+}
+
+const sleep = (clock: Clock, ms: number): Promise<void> => {
+  return new Promise((resolve) => clock.setTimeout(resolve, ms))
+}
@@ -4,15 +4,270 @@
  * file, You can obtain one at http://mozilla.org/MPL/2.0/.
  */
 
-import { Maybe, Some, None } from './Maybe';
+import { ResultChain } from './Chain';
+import { Inspect, InspectOptions, captureSite, freeze, inspectContainer, inspectSymbol, isErrTracing, show, showText } from './Debug';
+import { Eq, Compare, strictEqual, deepEqual, defaultCompare } from './Equality';
+import { ResultJSON, revive } from './Json';
+import { ResultCases, runBranch } from './Match';
+import { Maybe, Some, none } from './Maybe';
+import { ResultAsync } from './ResultAsync';
+import { TagOf, WithTag, WithoutTag, TagResults, TagHandlers, HandledOk, HandledErr, tagOf } from './TaggedError';
+import { UnwrapError } from './UnwrapError';
 
 interface ResultMatcher<T,U,E,F> {
   Ok: ((value: T) => U);
   Err: ((error: E) => F);
 }
 
-export abstract class Result<T,E> {
-  readonly __tag: string
+/**
+ * `OkOf` extracts the value type of a `Result`.
+ */
+type OkOf<R> = R extends Result<infer T, unknown> ? T : never
+
+/**
+ * `ErrOf` extracts the error type of a `Result`. Used on a union of results it gives the union
+ * of all their errors.
+ */
+type ErrOf<R> = R extends Result<unknown, infer E> ? E : never
+
+/**
+ * `resultBrand` marks every `Result`. It is registered with `Symbol.for` so that a `Result`
+ * created by another copy of this library, as happens with duplicated packages in a monorepo,
+ * is still recognised by {@link Result.isResult}.
+ */
+const resultBrand = Symbol.for('picofp/Result')
+
+/**
+ * `Result` is either an `Ok` containing a value or an `Err` containing an error. `Result<T,E>`
+ * is the union of both, so it can be discriminated on `__tag`:
+ *
+ * ```
+ * switch (result.__tag) {
+ *   case 'Ok': return result.value;
+ *   case 'Err': throw result.error;
+ * }
+ * ```
+ */
+export type Result<T,E> = Ok<T,E> | Err<T,E>
+
+/**
+ * `ResultBase` holds the methods shared by `Ok` and `Err`. It is exported as `Result` to give
+ * access to the static functions.
+ */
+export abstract class ResultBase<T,E> {
+  readonly __tag: 'Ok' | 'Err'
+
+  /**
+   * `isResult` tells if the supplied value is an `Ok` or an `Err`. Unlike `instanceof` this also
+   * works for values created by another copy of this library.
+   *
+   * Example:
+   * ```
+   * Result.isResult(new Ok(1)) // true
+   * Result.isResult({ __tag: "Ok", value: 1 }) // false, use Result.fromJSON for plain objects
+   * ```
+   */
+  static isResult(value: unknown): value is Result<unknown, unknown> {
+    return typeof value === 'object' && value !== null && resultBrand in value
+  }
+
+  /**
+   * `chain` starts a lazily evaluated {@link ResultChain} on the supplied result. The steps
+   * added to it only run on {@link ResultChain.run}, in a loop that uses constant stack space,
+   * which suits long or recursive chains.
+   *
+   * Example:
+   * ```
+   * Result.chain(new Ok(1))
+   *   .map((value) => value + 1)
+   *   .flatMap((value) => value > 1 ? new Ok(value) : new Err("too small"))
+   *   .run() // Ok(2)
+   * ```
+   */
+  static chain<T,E>(result: Result<T,E>): ResultChain<T,E> {
+    return ResultChain.of(result)
+  }
+
+  /**
+   * `try` calls the supplied function and wraps the returned value in an `Ok`. If the function
+   * throws, the thrown value is wrapped in an `Err`, passed through `mapError` if supplied.
+   *
+   * Example:
+   * ```
+   * Result.try(() => JSON.parse('{"a": 1}'))            // Ok({ a: 1 })
+   * Result.try(() => JSON.parse('{'), (e) => `${e}`)    // Err("SyntaxError: ...")
+   * ```
+   */
+  static try<T>(fn: () => T): Result<T, unknown>
+  static try<T,E>(fn: () => T, mapError: (error: unknown) => E): Result<T,E>
+  static try<T,E>(fn: () => T, mapError?: (error: unknown) => E): Result<T, E | unknown> {
+    try {
+      return new Ok(fn())
+    } catch (error) {
+      return new Err(mapError ? mapError(error) : error)
+    }
+  }
+
+  /**
+   * `fromThrowable` turns a function that may throw into a function with the same parameters
+   * returning a `Result`. See {@link Result.try}.
+   *
+   * Example:
+   * ```
+   * const safeParse = Result.fromThrowable(JSON.parse, (e) => `${e}`);
+   * safeParse('{"a": 1}') // Ok({ a: 1 })
+   * ```
+   */
+  static fromThrowable<A extends unknown[], T>(fn: (...args: A) => T): (...args: A) => Result<T, unknown>
+  static fromThrowable<A extends unknown[], T, E>(fn: (...args: A) => T, mapError: (error: unknown) => E): (...args: A) => Result<T,E>
+  static fromThrowable<A extends unknown[], T, E>(fn: (...args: A) => T, mapError?: (error: unknown) => E): (...args: A) => Result<T, E | unknown> {
+    return (...args: A) => Result.try(() => fn(...args), mapError)
+  }
+
+  /**
+   * `gen` provides a do-notation for `Result` using generators. Inside the generator
+   * `yield*` on {@link Result.bind} evaluates to the value of an `Ok`, while the first `Err`
+   * stops the generator and is returned. The error type is the union of the errors of all the
+   * yielded results.
+   *
+   * Example:
+   * ```
+   * const sum: Result<number, ParseError | RangeError> = Result.gen(function* () {
+   *   const a = yield* parse("1").bind();   // Result<number, ParseError>
+   *   const b = yield* inRange(a).bind();   // Result<number, RangeError>
+   *   return a + b;
+   * });
+   * ```
+   */
+  static gen<Y extends Err<never, unknown>, T>(fn: () => Generator<Y, T, unknown>): Result<T, ErrOf<Y>> {
+    const iterator = fn()
+    const next = iterator.next()
+    if (next.done) {
+      return new Ok(next.value as T)
+    }
+    iterator.return(undefined)
+    return propagateErr(next.value as Y, (next.value as Y).error as ErrOf<Y>)
+  }
+
+  /**
+   * `genAsync` is the asynchronous counterpart of {@link Result.gen} taking an async
+   * generator. Both `Result` and {@link ResultAsync} values can be bound with `yield*`.
+   *
+   * Example:
+   * ```
+   * const user: ResultAsync<User, FetchError | ParseError> = Result.genAsync(async function* () {
+   *   const body = yield* fetchBody(url).bind();  // ResultAsync<string, FetchError>
+   *   return yield* parseUser(body).bind();       // Result<User, ParseError>
+   * });
+   * ```
+   */
+  static genAsync<Y extends Err<never, unknown>, T>(fn: () => AsyncGenerator<Y, T, unknown>): ResultAsync<T, ErrOf<Y>> {
+    const iterator = fn()
+    return new ResultAsync(iterator.next().then(async (next): Promise<Result<T, ErrOf<Y>>> => {
+      if (next.done) {
+        return new Ok(next.value as T)
+      }
+      await iterator.return(undefined)
+      return propagateErr<T, ErrOf<Y>>(next.value as Y, (next.value as Y).error as ErrOf<Y>)
+    }))
+  }
+
+  /**
+   * `all` turns an array, tuple or record of results into a single `Result` containing all the
+   * values, or the first `Err` encountered.
+   *
+   * Example:
+   * ```
+   * const a: Result<number, ParseError> = new Ok(1);
+   * const b: Result<string, IOError> = new Ok("foo");
+   * Result.all([a, b])          // Ok([1, "foo"]) of type Result<[number, string], ParseError | IOError>
+   * Result.all({ a, b })        // Ok({ a: 1, b: "foo" })
+   * Result.all([a, new Err(e)]) // Err(e)
+   * ```
+   */
+  static all<R extends readonly Result<unknown, unknown>[] | []>(results: R): Result<{ -readonly [K in keyof R]: OkOf<R[K]> }, ErrOf<R[number]>>
+  static all<R extends Record<string, Result<unknown, unknown>>>(results: R): Result<{ [K in keyof R]: OkOf<R[K]> }, ErrOf<R[keyof R]>>
+  static all(results: readonly Result<unknown, unknown>[] | Record<string, Result<unknown, unknown>>): Result<unknown, unknown> {
+    if (!Array.isArray(results)) {
+      const record = results as Record<string, Result<unknown, unknown>>
+      const keys = Object.keys(record)
+      return Result.all(keys.map((key) => record[key])).map((values) => toRecord(keys, values))
+    }
+    const values: unknown[] = []
+    for (const result of results) {
+      if (result.isErr()) {
+        return propagateErr(result, result.error)
+      }
+      values.push(result.unwrap())
+    }
+    return new Ok(values)
+  }
+
+  /**
+   * `allSettled` works like {@link Result.all} but does not stop at the first `Err`. Instead
+   * every error is collected, in order, into the returned `Err`.
+   *
+   * Example:
+   * ```
+   * Result.allSettled([new Ok(1), new Ok(2)])              // Ok([1, 2])
+   * Result.allSettled([new Err("a"), new Ok(2), new Err("b")]) // Err(["a", "b"])
+   * ```
+   */
+  static allSettled<R extends readonly Result<unknown, unknown>[] | []>(results: R): Result<{ -readonly [K in keyof R]: OkOf<R[K]> }, ErrOf<R[number]>[]>
+  static allSettled<R extends Record<string, Result<unknown, unknown>>>(results: R): Result<{ [K in keyof R]: OkOf<R[K]> }, ErrOf<R[keyof R]>[]>
+  static allSettled(results: readonly Result<unknown, unknown>[] | Record<string, Result<unknown, unknown>>): Result<unknown, unknown[]> {
+    if (!Array.isArray(results)) {
+      const record = results as Record<string, Result<unknown, unknown>>
+      const keys = Object.keys(record)
+      return Result.allSettled(keys.map((key) => record[key])).map((values) => toRecord(keys, values))
+    }
+    const [values, errors] = Result.partition(results)
+    return errors.length > 0 ? new Err(errors) : new Ok(values)
+  }
+
+  /**
+   * `any` returns the first `Ok` of the supplied results. If there is none an `Err` with all
+   * the errors, in order, is returned.
+   *
+   * Example:
+   * ```
+   * Result.any([new Err("a"), new Ok(2), new Ok(3)]) // Ok(2)
+   * Result.any([new Err("a"), new Err("b")])         // Err(["a", "b"])
+   * ```
+   */
+  static any<R extends readonly Result<unknown, unknown>[] | []>(results: R): Result<OkOf<R[number]>, { -readonly [K in keyof R]: ErrOf<R[K]> }>
+  static any(results: readonly Result<unknown, unknown>[]): Result<unknown, unknown> {
+    const errors: unknown[] = []
+    for (const result of results) {
+      if (result.isErr()) {
+        errors.push(result.error)
+      } else {
+        return new Ok(result.unwrap())
+      }
+    }
+    return new Err(errors)
+  }
+
+  /**
+   * `partition` splits the supplied results into the values of all `Ok`s and the errors of all
+   * `Err`s.
+   *
+   * Example:
+   * ```
+   * Result.partition([new Ok(1), new Err("a"), new Ok(2)]) // [[1, 2], ["a"]]
+   * ```
+   */
+  static partition<R extends Result<unknown, unknown>>(results: readonly R[]): [OkOf<R>[], ErrOf<R>[]] {
+    const values: OkOf<R>[] = []
+    const errors: ErrOf<R>[] = []
+    for (const result of results) {
+      result.match({
+        'Ok': (value) => values.push(value as OkOf<R>),
+        'Err': (error) => errors.push(error as ErrOf<R>),
+      })
+    }
+    return [values, errors]
+  }
 
   /**
    * isOk returns true if this is an instance of `Ok` and false otherwise.
@@ -63,18 +318,143 @@ export abstract class Result<T,E> {
    *     'Err'; (error: E) => return error.length,
    * });
    * ```
+   *
+   * The cases may also leave out a branch or guard it with {@link when}, as long as the `_`
+   * wildcard handles everything else, and match on a nested `Result` or `Maybe` with nested
+   * cases:
+   *
+   * ```
+   * const result: Result<Maybe<number>, string> = new Ok(new Some(10));
+   * result.match({
+   *     'Ok': { 'Some': [when((value) => value > 0), (value) => value], '_': () => 0 },
+   *     '_': () => -1,
+   * }); // 10
+   * ```
    */
-  public match<U, F>(matcher: ResultMatcher<T,U,E,F>): U | F {
+  public match<R>(cases: ResultCases<T,E,R>): R
+  public match<U, F>(matcher: ResultMatcher<T,U,E,F>): U | F
+  public match<R>(cases: ResultCases<T,E,R>): R {
     if (this.isOk()) {
-      return matcher.Ok(this.value);
+      const matched = runBranch(cases.Ok, this.value)
+      return matched.isSome() ? matched.value : cases._(this)
     } else if (this.isErr()) {
-      return matcher.Err(this.error);
+      const matched = runBranch(cases.Err, this.error)
+      return matched.isSome() ? matched.value : cases._(this)
+    }
+  }
+
+  /**
+   * `bind` is what `yield*` is used with inside {@link Result.gen}. For an `Ok` it completes
+   * immediately with the value, an `Err` yields itself so the generator can be stopped.
+   *
+   * Example:
+   * ```
+   * Result.gen(function* () {
+   *   const user = yield* findUser(id).bind();
+   *   return user.name;
+   * })
+   * ```
+   */
+  public *bind(this: Result<T,E>): Generator<Err<never,E>, T, unknown> {
+    if (this.isErr()) {
+      yield propagateErr<never,E>(this, this.error)
+    }
+    return this.unwrap()
+  }
+
+  /**
+   * `toAsync` lifts this `Result` into a {@link ResultAsync} allowing it to be chained with
+   * asynchronous steps.
+   *
+   * Example:
+   * ```
+   * const ok: Result<string, string> = new Ok("10");
+   * await ok.toAsync().map(async (value) => value.length) // Ok(2)
+   * ```
+   */
+  public toAsync(this: Result<T,E>): ResultAsync<T,E> {
+    return ResultAsync.fromResult(this)
+  }
+
+  /**
+   * `equals` returns true if both this and the supplied result are `Ok` with equal values, or
+   * both are `Err` with equal errors. Values and errors are compared structurally with
+   * {@link deepEqual} unless other comparisons are supplied.
+   *
+   * Example:
+   * ```
+   * new Ok({ id: 1 }).equals(new Ok({ id: 1 }))   // true
+   * new Err("a").equals(new Err("a"))             // true
+   * new Ok("a").equals(new Err("a"))              // false
+   * ```
+   */
+  public equals(other: Result<T,E>, eq: Eq<T> = deepEqual, eqErr: Eq<E> = deepEqual): boolean {
+    if (this.isOk() && other.isOk()) {
+      return eq(this.value, other.value)
+    }
+    if (this.isErr() && other.isErr()) {
+      return eqErr(this.error, other.error)
+    }
+    return false
+  }
+
+  /**
+   * `compare` orders this and the supplied result. An `Err` comes before any `Ok`, two `Ok`
+   * values are ordered by their values and two `Err` values by their errors, using
+   * {@link defaultCompare} unless other comparisons are supplied.
+   *
+   * Example:
+   * ```
+   * new Err("a").compare(new Ok(1))  // -1
+   * new Ok(2).compare(new Ok(1))     // 1
+   * ```
+   */
+  public compare(other: Result<T,E>, cmp: Compare<T> = defaultCompare, cmpErr: Compare<E> = defaultCompare): number {
+    if (this.isOk() && other.isOk()) {
+      return cmp(this.value, other.value)
+    }
+    if (this.isErr() && other.isErr()) {
+      return cmpErr(this.error, other.error)
+    }
+    return this.isOk() ? 1 : -1
+  }
+
+  /**
+   * `comparator` returns a function ordering results as in {@link Result.compare}, suitable for
+   * `Array.prototype.sort`.
+   *
+   * Example:
+   * ```
+   * [new Ok(2), new Err("a"), new Ok(1)].sort(Result.comparator()) // [Err("a"), Ok(1), Ok(2)]
+   * ```
+   */
+  static comparator<T,E>(cmp: Compare<T> = defaultCompare, cmpErr: Compare<E> = defaultCompare): Compare<Result<T,E>> {
+    return (a, b) => a.compare(b, cmp, cmpErr)
+  }
+
+  /**
+   * `fromJSON` rebuilds a `Result` from its JSON representation, either the text produced by
+   * `JSON.stringify` or an already parsed object. Nested `Maybe` and `Result` values are
+   * rebuilt as well. A `TypeError` is thrown if the value is not a `Result`.
+   *
+   * Example:
+   * ```
+   * const text = JSON.stringify(new Ok(new Some(1))); // '{"__tag":"Ok","value":{"__tag":"Some","value":1}}'
+   * Result.fromJSON<Maybe<number>, string>(text)       // Ok(Some(1))
+   * ```
+   */
+  static fromJSON<T = unknown, E = unknown>(json: string | ResultJSON<unknown, unknown>): Result<T,E> {
+    const result = revive(typeof json === 'string' ? JSON.parse(json) : json)
+    if (!Result.isResult(result)) {
+      throw new TypeError(`Cannot create a Result from ${JSON.stringify(json)}`)
     }
+    return result as Result<T,E>
   }
 
-   /**
+  /**
    * `contains` will return true if this `Ok` value contains the supplied value _or_ if the `Err`
-   * contains the supplied value.
+   * contains the supplied value. Values are compared with `===` unless another comparison, such
+   * as {@link deepEqual}, is supplied.
    *
    *
    * Example:
@@ -85,9 +465,11 @@ export abstract class Result<T,E> {
    *
    * const err: Result<string, number> = new Err(30);
    * err.contains(30); // true
+   *
+   * new Ok({ id: 1 }).contains({ id: 1 }, deepEqual) // true
    * ```
    */
-  abstract contains(value: T | E): boolean
+  abstract contains(value: T | E, eq?: Eq<T | E>): boolean
 
   /**
    * `ok` converts a `Result<T,E>` to an instance of a {@link Maybe<T>}
@@ -100,7 +482,8 @@ export abstract class Result<T,E> {
   abstract err(): Maybe<E>
 
   /**
-   * `unwrap` returns the value contained in the `Ok` or throws an error.
+   * `unwrap` returns the value contained in the `Ok` or throws an {@link UnwrapError} with the
+   * error of the `Err` as its `cause`.
    *
    * Example:
    * ```
@@ -108,12 +491,45 @@ export abstract class Result<T,E> {
    * ok.unwrap() // 1
    *
    * const err: Result<number, string> = new Err("Error");
-   * none.unwrap() // Error thrown will be "Error".
+   * err.unwrap() // UnwrapError thrown with the message "Unwrap called on Err value: Error".
    * ```
    *
    */
   abstract unwrap(): T
 
+  /**
+   * `unwrapErr` returns the error contained in the `Err` or throws an {@link UnwrapError} with
+   * the value of the `Ok` as its `cause`.
+   *
+   * Example:
+   * ```
+   * const err: Result<number, string> = new Err("Error");
+   * err.unwrapErr() // "Error"
+   *
+   * const ok: Result<number, string> = new Ok(1);
+   * ok.unwrapErr() // UnwrapError thrown.
+   * ```
+   */
+  abstract unwrapErr(): E
+
+  /**
+   * `expect` works like {@link Result.unwrap} but the thrown {@link UnwrapError} has the
+   * supplied message.
+   *
+   * Example:
+   * ```
+   * const err: Result<Config, string> = new Err("file not found");
+   * err.expect("config should be readable") // UnwrapError("config should be readable")
+   * ```
+   */
+  abstract expect(message: string): T
+
+  /**
+   * `expectErr` works like {@link Result.unwrapErr} but the thrown {@link UnwrapError} has the
+   * supplied message.
+   */
+  abstract expectErr(message: string): E
+
   /**
    * `unwrapOr` returns the value contained in the `Ok` or the supplied value.
    *
@@ -151,10 +567,10 @@ export abstract class Result<T,E> {
    * Example:
    * ```
    * const ok: Result<string, string> = new Ok("string");
-   * ok.map((value) => value.length, 5) // Ok(6)
+   * ok.mapOr((value) => value.length, 5) // Ok(6)
    *
    * const err: Result<string, string> = new Err("Error");
-   * err.map((value) => value.length, 5) // Ok(5)
+   * err.mapOr((value) => value.length, 5) // Ok(5)
    * ```
    */
   abstract mapOr<U>(fn: (value: T) => U, def: U): Result<U,E>
@@ -168,7 +584,7 @@ export abstract class Result<T,E> {
    * err.mapErr((value) => `${value} and another error`) // Err("string and another error")
    *
    * const ok: Result<string, string> = new Ok("foo");
-   * ok.map((value) => "new error string") // Ok("foo")
+   * ok.mapErr((value) => "new error string") // Ok("foo")
    * ```
    */
   abstract mapErr<U>(fn: (error: E) => U): Result<T,U>
@@ -183,23 +599,218 @@ export abstract class Result<T,E> {
    * ok.flatMap((value) => new Ok(value.length)) // Ok(6)
    *
    * const err: Result<string, number> = new Err(42);
-   * err.flapMap((value) => new Ok(10)) // Ok(10)
+   * err.flatMap((value) => new Ok(value.length)) // Err(42)
+   * ```
+   */
+  abstract flatMap<U, F = E>(fn: (value: T) => Result<U,F>): Result<U, E | F>
+
+  /**
+   * `andThen` is an alias for {@link Result.flatMap}.
+   */
+  abstract andThen<U, F = E>(fn: (value: T) => Result<U,F>): Result<U, E | F>
+
+  /**
+   * `and` returns the supplied result if this is an `Ok`, otherwise the `Err` is passed through.
+   *
+   * Example:
+   * ```
+   * new Ok(1).and(new Ok("foo"))     // Ok("foo")
+   * new Err("a").and(new Ok("foo"))  // Err("a")
+   * ```
+   */
+  abstract and<U,F>(result: Result<U,F>): Result<U, E | F>
+
+  /**
+   * `or` returns this result if it is an `Ok`, otherwise the supplied result is returned.
+   *
+   * Example:
+   * ```
+   * new Ok(1).or(new Ok(2))      // Ok(1)
+   * new Err("a").or(new Ok(2))   // Ok(2)
+   * ```
+   */
+  abstract or<U,F>(result: Result<U,F>): Result<T | U, F>
+
+  /**
+   * `orElse` calls the supplied function with the error of an `Err`, allowing it to recover
+   * from the error. An `Ok` is passed through.
+   *
+   * Example:
+   * ```
+   * const err: Result<Config, string> = new Err("file not found");
+   * err.orElse((error) => new Ok(defaultConfig)) // Ok(defaultConfig)
+   * ```
+   */
+  abstract orElse<U,F>(fn: (error: E) => Result<U,F>): Result<T | U, F>
+
+  /**
+   * `catchTag` calls the supplied handler with the error of an `Err` if its `_tag` is the
+   * supplied tag, allowing it to recover from that error. Other errors and `Ok` values are
+   * passed through. The handled tag is removed from the error type. See {@link TaggedError}.
+   *
+   * Example:
+   * ```
+   * const user: Result<User, NotFound | Forbidden> = fetchUser(id);
+   * const orGuest: Result<User, Forbidden> = user.catchTag('NotFound', () => new Ok(guest));
+   * ```
+   */
+  abstract catchTag<K extends TagOf<E>, U, F = never>(tag: K, handler: (error: WithTag<E,K>) => Result<U,F>): Result<T | U, WithoutTag<E,K> | F>
+
+  /**
+   * `catchTags` works like {@link Result.catchTag} for several tags at once. Every handled tag
+   * is removed from the error type and it is a type error to supply a handler for a tag that is
+   * not part of it.
+   *
+   * Example:
+   * ```
+   * const user: Result<User, NotFound | Forbidden | Timeout> = fetchUser(id);
+   * const handled: Result<User | null, Timeout> = user.catchTags({
+   *   NotFound: () => new Ok(null),
+   *   Forbidden: (error) => new Ok(guest),
+   * });
    * ```
    */
-  abstract flatMap<U>(fn: (value: T) => Result<U,E>): Result<U,E>
+  abstract catchTags<R extends TagResults<E,R>>(handlers: TagHandlers<E,R>): Result<T | HandledOk<R[keyof R]>, WithoutTag<E, keyof R> | HandledErr<R[keyof R]>>
+
+  /**
+   * `mapOrElse` applies the supplied function to the enclosed value in a `Ok` or returns a new
+   * result with the default computed from the error. See {@link Result.mapOr}.
+   *
+   * Example:
+   * ```
+   * const err: Result<string, string> = new Err("Error");
+   * err.mapOrElse((value) => value.length, (error) => -error.length) // Ok(-5)
+   * ```
+   */
+  abstract mapOrElse<U>(fn: (value: T) => U, def: (error: E) => U): Result<U,E>
+
+  /**
+   * `unwrapOrElse` returns the value contained in the `Ok` or computes one from the error.
+   *
+   * Example:
+   * ```
+   * const err: Result<number, string> = new Err("Error");
+   * err.unwrapOrElse((error) => error.length) // 5
+   * ```
+   */
+  abstract unwrapOrElse(fn: (error: E) => T): T
+
+  /**
+   * `inspect` calls the supplied function with the value of an `Ok` and returns the result
+   * unchanged. Useful for side effects such as logging.
+   *
+   * Example:
+   * ```
+   * fetchUser(id).inspect((user) => console.log(`found ${user.name}`)).map(...)
+   * ```
+   */
+  abstract inspect(fn: (value: T) => void): Result<T,E>
+
+  /**
+   * `inspectErr` calls the supplied function with the error of an `Err` and returns the result
+   * unchanged.
+   */
+  abstract inspectErr(fn: (error: E) => void): Result<T,E>
+
+  /**
+   * `isOkAnd` returns true if this is an `Ok` and the value satisfies the predicate.
+   *
+   * Example:
+   * ```
+   * new Ok(2).isOkAnd((value) => value > 1)   // true
+   * new Err("a").isOkAnd((value) => value > 1) // false
+   * ```
+   */
+  abstract isOkAnd(predicate: (value: T) => boolean): boolean
+
+  /**
+   * `isErrAnd` returns true if this is an `Err` and the error satisfies the predicate.
+   */
+  abstract isErrAnd(predicate: (error: E) => boolean): boolean
+
+  /**
+   * `iter` returns an iterator over the value of an `Ok`. It yields the value once for an `Ok`
+   * and nothing for an `Err`.
+   *
+   * Example:
+   * ```
+   * [...new Ok(1).iter()]     // [1]
+   * [...new Err("a").iter()]  // []
+   * ```
+   */
+  abstract iter(): IterableIterator<T>
+
+  /**
+   * `flatten` removes one level of nesting from a `Result<Result<U,F>,E>`.
+   *
+   * Example:
+   * ```
+   * new Ok(new Ok(1)).flatten()      // Ok(1)
+   * new Ok(new Err("a")).flatten()   // Err("a")
+   * ```
+   */
+  abstract flatten<U,F>(this: Result<Result<U,F>,E>): Result<U, E | F>
+
+  /**
+   * `transpose` turns a `Result` of a {@link Maybe} into a `Maybe` of a `Result`. `Ok(None)`
+   * becomes `None`, `Ok(Some(v))` becomes `Some(Ok(v))` and `Err(e)` becomes `Some(Err(e))`.
+   */
+  abstract transpose<U>(this: Result<Maybe<U>,E>): Maybe<Result<U,E>>
+
+  /**
+   * `toJSON` returns the JSON representation of this `Result`. It is called by
+   * `JSON.stringify`, see {@link ResultJSON} for the format.
+   */
+  abstract toJSON(): ResultJSON<T,E>
+
+  /**
+   * `toString` returns a readable representation of this `Result`, which is also what template
+   * strings show.
+   *
+   * Example:
+   * ```
+   * new Ok([1, 2]).toString()      // Ok([1, 2])
+   * `${new Err("not found")}`      // Err("not found")
+   * ```
+   */
+  public toString(): string {
+    return this.isOk() ? `Ok(${show(this.value)})` : `Err(${show(this.unwrapErr())})`
+  }
+
+  /**
+   * `Symbol.toStringTag` is the tag, so `Object.prototype.toString` reports an `Ok` as
+   * `[object Ok]` and an `Err` as `[object Err]`.
+   */
+  get [Symbol.toStringTag](): string {
+    return this.__tag
+  }
 }
 
-export class Ok<T,E = never> extends Result<T,E> {
+Object.defineProperty(ResultBase.prototype, resultBrand, { value: true })
+
+/**
+ * Node's `util.inspect`, and so `console.log`, shows a `Result` as `Ok(...)` or `Err(...)`.
+ */
+Object.defineProperty(ResultBase.prototype, inspectSymbol, {
+  value: function (this: Result<unknown, unknown>, depth: number, options: InspectOptions, inspect?: Inspect): string {
+    return inspectContainer(this.__tag, [this.isOk() ? this.value : this.unwrapErr()], depth, options, inspect)
+  },
+})
+
+export const Result = ResultBase
+
+export class Ok<T,E = never> extends ResultBase<T,E> {
   readonly __tag = 'Ok'
-  value: T
+  readonly value: T
 
   constructor(value: T) {
     super()
     this.value = value
+    freeze(this)
   }
 
-  public contains(value: T): boolean {
-    return this.value === value
+  public contains(value: T | E, eq: Eq<T | E> = strictEqual): boolean {
+    return eq(this.value, value)
   }
 
   public ok(): Maybe<T> {
@@ -207,13 +818,25 @@ export class Ok<T,E = never> extends Result<T,E> {
   }
 
   public err(): Maybe<E> {
-    return new None();
+    return none();
   }
 
   public unwrap(): T {
     return this.value
   }
 
+  public unwrapErr(): E {
+    throw new UnwrapError(`UnwrapErr called on Ok value: ${showText(this.value)}`, this.value)
+  }
+
+  public expect(_: string): T {
+    return this.value
+  }
+
+  public expectErr(message: string): E {
+    throw new UnwrapError(message, this.value)
+  }
+
   public unwrapOr(_: T): T {
     return this.value;
   }
@@ -230,26 +853,107 @@ export class Ok<T,E = never> extends Result<T,E> {
     return new Ok(this.value)
   }
 
-  public flatMap<U>(fn: (value: T) => Result<U,E>): Result<U,E> {
+  public flatMap<U, F = E>(fn: (value: T) => Result<U,F>): Result<U, E | F> {
     return fn(this.value)
   }
+
+  public andThen<U, F = E>(fn: (value: T) => Result<U,F>): Result<U, E | F> {
+    return fn(this.value)
+  }
+
+  public and<U,F>(result: Result<U,F>): Result<U, E | F> {
+    return result
+  }
+
+  public or<U,F>(_: Result<U,F>): Result<T | U, F> {
+    return new Ok(this.value)
+  }
+
+  public orElse<U,F>(_: (error: E) => Result<U,F>): Result<T | U, F> {
+    return new Ok(this.value)
+  }
+
+  public catchTag<K extends TagOf<E>, U, F = never>(_: K, __: (error: WithTag<E,K>) => Result<U,F>): Result<T | U, WithoutTag<E,K> | F> {
+    return new Ok(this.value)
+  }
+
+  public catchTags<R extends TagResults<E,R>>(_: TagHandlers<E,R>): Result<T | HandledOk<R[keyof R]>, WithoutTag<E, keyof R> | HandledErr<R[keyof R]>> {
+    return new Ok(this.value)
+  }
+
+  public mapOrElse<U>(fn: (value: T) => U, _: (error: E) => U): Result<U,E> {
+    return new Ok(fn(this.value))
+  }
+
+  public unwrapOrElse(_: (error: E) => T): T {
+    return this.value
+  }
+
+  public inspect(fn: (value: T) => void): Result<T,E> {
+    fn(this.value)
+    return this
+  }
+
+  public inspectErr(_: (error: E) => void): Result<T,E> {
+    return this
+  }
+
+  public isOkAnd(predicate: (value: T) => boolean): boolean {
+    return predicate(this.value)
+  }
+
+  public isErrAnd(_: (error: E) => boolean): boolean {
+    return false
+  }
+
+  public iter(): IterableIterator<T> {
+    return [this.value][Symbol.iterator]()
+  }
+
+  public flatten<U,F>(this: Result<Result<U,F>,E>): Result<U, E | F> {
+    return this.unwrap()
+  }
+
+  public transpose<U>(this: Result<Maybe<U>,E>): Maybe<Result<U,E>> {
+    return this.unwrap().map((value) => new Ok(value))
+  }
+
+  public toJSON(): ResultJSON<T,E> {
+    return { __tag: 'Ok', value: this.value }
+  }
 }
 
-export class Err<T,E> extends Result<T,E> {
+export class Err<T,E> extends ResultBase<T,E> {
   readonly __tag = 'Err'
   readonly error: E
+  /**
+   * `site` is the stack trace of the creation of this `Err`, or of the `Err` it was passed on
+   * from, when {@link setErrTracing} is on. It is not enumerable, so it is left out of
+   * comparisons and JSON.
+   */
+  readonly site?: string
 
-  constructor(error: E) {
+  /**
+   * An `Err` passed on from another one takes its `site`, otherwise it captures its own when
+   * {@link setErrTracing} is on.
+   */
+  constructor(error: E, site?: string) {
     super()
     this.error = error;
+    if (site !== undefined) {
+      Object.defineProperty(this, 'site', { value: site })
+    } else if (isErrTracing()) {
+      Object.defineProperty(this, 'site', { value: captureSite(Err) })
+    }
+    freeze(this)
   }
 
-  public contains(error: E): boolean {
-    return this.error === error;
+  public contains(error: T | E, eq: Eq<T | E> = strictEqual): boolean {
+    return eq(this.error, error);
   }
 
   public ok(): Maybe<T> {
-    return new None()
+    return none()
   }
 
   public err(): Maybe<E> {
@@ -257,7 +961,19 @@ export class Err<T,E> extends Result<T,E> {
   }
 
   public unwrap(): T {
-    throw new Error(this.error.toString());
+    throw new UnwrapError(`Unwrap called on Err value: ${showText(this.error)}`, this.error)
+  }
+
+  public unwrapErr(): E {
+    return this.error
+  }
+
+  public expect(message: string): T {
+    throw new UnwrapError(message, this.error)
+  }
+
+  public expectErr(_: string): E {
+    return this.error
   }
 
   public unwrapOr(value: T): T {
@@ -265,7 +981,7 @@ export class Err<T,E> extends Result<T,E> {
   }
 
   public map<U>(_: (value: T) => U): Result<U,E> {
-    return new Err(this.error)
+    return propagateErr(this, this.error)
   }
 
   public mapOr<U>(_: (value: T) => U, def: U): Result<U,E> {
@@ -273,12 +989,93 @@ export class Err<T,E> extends Result<T,E> {
   }
 
   public mapErr<U>(fn: (error: E) => U): Result<T,U> {
-    return new Err(fn(this.error))
+    return propagateErr(this, fn(this.error))
+  }
+
+  public flatMap<U, F = E>(_: (value: T) => Result<U,F>): Result<U, E | F> {
+    return propagateErr(this, this.error)
+  }
+
+  public andThen<U, F = E>(_: (value: T) => Result<U,F>): Result<U, E | F> {
+    return propagateErr(this, this.error)
+  }
+
+  public and<U,F>(_: Result<U,F>): Result<U, E | F> {
+    return propagateErr(this, this.error)
+  }
+
+  public or<U,F>(result: Result<U,F>): Result<T | U, F> {
+    return result
+  }
+
+  public orElse<U,F>(fn: (error: E) => Result<U,F>): Result<T | U, F> {
+    return fn(this.error)
+  }
+
+  public catchTag<K extends TagOf<E>, U, F = never>(tag: K, handler: (error: WithTag<E,K>) => Result<U,F>): Result<T | U, WithoutTag<E,K> | F> {
+    if (tagOf(this.error) === tag) {
+      return handler(this.error as WithTag<E,K>)
+    }
+    return propagateErr(this, this.error as WithoutTag<E,K>)
+  }
+
+  public catchTags<R extends TagResults<E,R>>(handlers: TagHandlers<E,R>): Result<T | HandledOk<R[keyof R]>, WithoutTag<E, keyof R> | HandledErr<R[keyof R]>> {
+    const tag = tagOf(this.error)
+    if (typeof tag === 'string' && Object.prototype.hasOwnProperty.call(handlers, tag)) {
+      const handler = (handlers as Record<string, (error: E) => Result<HandledOk<R[keyof R]>, HandledErr<R[keyof R]>>>)[tag]
+      return handler(this.error)
+    }
+    return propagateErr(this, this.error as WithoutTag<E, keyof R>)
+  }
+
+  public mapOrElse<U>(_: (value: T) => U, def: (error: E) => U): Result<U,E> {
+    return new Ok(def(this.error))
   }
 
-  public flatMap<U>(_: (value: T) => Result<U,E>): Result<U,E> {
-    return new Err(this.error)
+  public unwrapOrElse(fn: (error: E) => T): T {
+    return fn(this.error)
   }
+
+  public inspect(_: (value: T) => void): Result<T,E> {
+    return this
+  }
+
+  public inspectErr(fn: (error: E) => void): Result<T,E> {
+    fn(this.error)
+    return this
+  }
+
+  public isOkAnd(_: (value: T) => boolean): boolean {
+    return false
+  }
+
+  public isErrAnd(predicate: (error: E) => boolean): boolean {
+    return predicate(this.error)
+  }
+
+  public iter(): IterableIterator<T> {
+    return [][Symbol.iterator]()
+  }
+
+  public flatten<U,F>(this: Result<Result<U,F>,E>): Result<U, E | F> {
+    return propagateErr(this, this.unwrapErr())
+  }
+
+  public transpose<U>(this: Result<Maybe<U>,E>): Maybe<Result<U,E>> {
+    return new Some(propagateErr<U,E>(this, this.unwrapErr()))
+  }
+
+  public toJSON(): ResultJSON<T,E> {
+    return { __tag: 'Err', error: this.error }
+  }
+}
+
+/**
+ * `propagateErr` creates an `Err` with the supplied error for passing on `from`, keeping the
+ * creation site of `from` when it is a traced `Err`.
+ */
+export const propagateErr = <T,E>(from: Result<unknown, unknown>, error: E): Err<T,E> => {
+  return new Err(error, from.isErr() ? from.site : undefined)
 }
 
 export const ok = <T>(value: T): Result<T, never> => {
@@ -288,3 +1085,16 @@ export const ok = <T>(value: T): Result<T, never> => {
 export const err = <_, E>(error: E): Result<_, E> => {
   return new Err(error);
 }
+
+/**
+ * `toRecord` creates a record from the supplied keys and values. The properties are defined
+ * rather than assigned so that a `__proto__` key, as found in parsed JSON, is kept as a property
+ * instead of replacing the prototype of the record.
+ */
+export const toRecord = <T>(keys: string[], values: T[]): Record<string, T> => {
+  const record: Record<string, T> = {}
+  keys.forEach((key, index) => {
+    Object.defineProperty(record, key, { value: values[index], enumerable: true, writable: true, configurable: true })
+  })
+  return record
+}
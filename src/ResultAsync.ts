@@ -0,0 +1,223 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { MaybeAsync } from './MaybeAsync';
+import { Result, Ok, Err, propagateErr } from './Result';
+
+/**
+ * `ResultAsyncMatcher` is the asynchronous counterpart of the matcher used by
+ * {@link Result.match}. Both branches may return a plain value or a promise.
+ */
+interface ResultAsyncMatcher<T,U,E,F> {
+  Ok: ((value: T) => U | PromiseLike<U>);
+  Err: ((error: E) => F | PromiseLike<F>);
+}
+
+/**
+ * `ResultAsync` wraps a `Promise<Result<T,E>>` and exposes the same operations as
+ * {@link Result} but accepts callbacks that may return promises. It is thenable so it
+ * can be awaited directly to get the underlying `Result` back.
+ *
+ * Example:
+ * ```
+ * const user: ResultAsync<User, string> = ResultAsync.fromPromise(
+ *   fetchUser(id),
+ *   (reason) => `Could not fetch user: ${reason}`,
+ * );
+ * const name: Result<string, string> = await user.map((user) => user.name);
+ * ```
+ */
+export class ResultAsync<T,E> implements PromiseLike<Result<T,E>> {
+  private readonly promise: Promise<Result<T,E>>
+
+  constructor(promise: PromiseLike<Result<T,E>>) {
+    this.promise = Promise.resolve(promise)
+  }
+
+  /**
+   * `fromPromise` creates a `ResultAsync` from a promise that may reject. A resolved value is
+   * wrapped in an `Ok` and the rejection reason is passed through `mapRejection` and wrapped
+   * in an `Err`.
+   *
+   * Example:
+   * ```
+   * const res = ResultAsync.fromPromise(Promise.reject("boom"), (reason) => `${reason}!`);
+   * await res // Err("boom!")
+   * ```
+   */
+  static fromPromise<T,E>(promise: PromiseLike<T>, mapRejection: (reason: unknown) => E): ResultAsync<T,E> {
+    return new ResultAsync(Promise.resolve(promise).then(
+      (value): Result<T,E> => new Ok(value),
+      (reason): Result<T,E> => new Err(mapRejection(reason)),
+    ))
+  }
+
+  /**
+   * `fromSafePromise` creates a `ResultAsync` from a promise that is known to never reject.
+   *
+   * Example:
+   * ```
+   * const res = ResultAsync.fromSafePromise(Promise.resolve(10));
+   * await res // Ok(10)
+   * ```
+   */
+  static fromSafePromise<T,E = never>(promise: PromiseLike<T>): ResultAsync<T,E> {
+    return new ResultAsync(Promise.resolve(promise).then((value): Result<T,E> => new Ok(value)))
+  }
+
+  /**
+   * `fromResult` lifts a synchronous `Result` into a `ResultAsync`.
+   */
+  static fromResult<T,E>(result: Result<T,E>): ResultAsync<T,E> {
+    return new ResultAsync(Promise.resolve(result))
+  }
+
+  /**
+   * `try` is the asynchronous counterpart of {@link Result.try}. The supplied function may
+   * return a promise, and both a thrown error and a rejection are wrapped in an `Err`, passed
+   * through `mapError` if supplied.
+   *
+   * Example:
+   * ```
+   * const body = ResultAsync.try(() => fs.promises.readFile(path, "utf8"), (e) => `${e}`);
+   * ```
+   */
+  static try<T>(fn: () => T | PromiseLike<T>): ResultAsync<T, unknown>
+  static try<T,E>(fn: () => T | PromiseLike<T>, mapError: (error: unknown) => E): ResultAsync<T,E>
+  static try<T,E>(fn: () => T | PromiseLike<T>, mapError?: (error: unknown) => E): ResultAsync<T, E | unknown> {
+    const mapRejection = (error: unknown) => mapError ? mapError(error) : error
+    return ResultAsync.fromPromise(new Promise<T>((resolve) => resolve(fn())), mapRejection)
+  }
+
+  /**
+   * `fromThrowable` turns an asynchronous function that may throw or reject into a function
+   * with the same parameters returning a `ResultAsync`. See {@link ResultAsync.try}.
+   *
+   * Example:
+   * ```
+   * const readFile = ResultAsync.fromThrowable(fs.promises.readFile, (e) => `${e}`);
+   * readFile(path, "utf8") // ResultAsync<string | Buffer, string>
+   * ```
+   */
+  static fromThrowable<A extends unknown[], T>(fn: (...args: A) => T | PromiseLike<T>): (...args: A) => ResultAsync<T, unknown>
+  static fromThrowable<A extends unknown[], T, E>(fn: (...args: A) => T | PromiseLike<T>, mapError: (error: unknown) => E): (...args: A) => ResultAsync<T,E>
+  static fromThrowable<A extends unknown[], T, E>(fn: (...args: A) => T | PromiseLike<T>, mapError?: (error: unknown) => E): (...args: A) => ResultAsync<T, E | unknown> {
+    return (...args: A) => ResultAsync.try(() => fn(...args), mapError)
+  }
+
+  /**
+   * `map` applies the supplied function to the value of a resolved `Ok`. The function may
+   * return a promise which will be awaited before it is wrapped in a new `Ok`.
+   *
+   * Example:
+   * ```
+   * const res: ResultAsync<string, string> = okAsync("string");
+   * res.map(async (value) => value.length) // ResultAsync resolving to Ok(6)
+   * ```
+   */
+  public map<U>(fn: (value: T) => U | PromiseLike<U>): ResultAsync<U,E> {
+    return new ResultAsync(this.promise.then((result) => result.match<PromiseLike<Result<U,E>>, Result<U,E>>({
+      'Ok': async (value) => new Ok(await fn(value)),
+      'Err': (error) => propagateErr(result, error),
+    })))
+  }
+
+  /**
+   * `mapErr` applies the supplied function to the error of a resolved `Err` leaving an `Ok`
+   * untouched. The function may return a promise.
+   *
+   * Example:
+   * ```
+   * const res: ResultAsync<string, string> = errAsync("string");
+   * res.mapErr(async (error) => error.length) // ResultAsync resolving to Err(6)
+   * ```
+   */
+  public mapErr<U>(fn: (error: E) => U | PromiseLike<U>): ResultAsync<T,U> {
+    return new ResultAsync(this.promise.then((result) => result.match<Result<T,U>, PromiseLike<Result<T,U>>>({
+      'Ok': (value) => new Ok(value),
+      'Err': async (error) => propagateErr(result, await fn(error)),
+    })))
+  }
+
+  /**
+   * `flatMap` applies the supplied function to the value of a resolved `Ok`. The function may
+   * return a `Result`, a `ResultAsync` or a promise of a `Result`, which allows synchronous and
+   * asynchronous steps to be mixed in the same chain.
+   *
+   * Example:
+   * ```
+   * const res: ResultAsync<string, string> = okAsync("10");
+   * res.flatMap((value) => parse(value))           // parse returns Result<number, string>
+   *    .flatMap((num) => fetchItem(num))            // fetchItem returns ResultAsync<Item, string>
+   * ```
+   */
+  public flatMap<U>(fn: (value: T) => Result<U,E> | PromiseLike<Result<U,E>>): ResultAsync<U,E> {
+    return new ResultAsync(this.promise.then((result) => result.match<Result<U,E> | PromiseLike<Result<U,E>>, Result<U,E>>({
+      'Ok': (value) => fn(value),
+      'Err': (error) => propagateErr(result, error),
+    })))
+  }
+
+  /**
+   * `match` resolves to the result of the `Ok` or `Err` branch of the supplied matcher. See
+   * {@link Result.match}.
+   *
+   * Example:
+   * ```
+   * const res: ResultAsync<number, string> = okAsync(10);
+   * await res.match({
+   *     'Ok': async (value) => value * 2,
+   *     'Err': (error) => error.length,
+   * }); // 20
+   * ```
+   */
+  public match<U,F>(matcher: ResultAsyncMatcher<T,U,E,F>): Promise<U | F> {
+    return this.promise.then((result) => result.match(matcher))
+  }
+
+  /**
+   * `unwrapOr` resolves to the value contained in the `Ok` or the supplied value.
+   */
+  public unwrapOr(value: T): Promise<T> {
+    return this.promise.then((result) => result.unwrapOr(value))
+  }
+
+  /**
+   * `ok` converts this `ResultAsync` into a {@link MaybeAsync<T>} of the `Ok` value.
+   */
+  public ok(): MaybeAsync<T> {
+    return new MaybeAsync(this.promise.then((result) => result.ok()))
+  }
+
+  /**
+   * `err` converts this `ResultAsync` into a {@link MaybeAsync<E>} of the `Err` value.
+   */
+  public err(): MaybeAsync<E> {
+    return new MaybeAsync(this.promise.then((result) => result.err()))
+  }
+
+  /**
+   * `bind` is what `yield*` is used with inside {@link Result.genAsync}. See {@link Result.bind}.
+   */
+  public async *bind(): AsyncGenerator<Err<never,E>, T, unknown> {
+    return yield* (await this.promise).bind()
+  }
+
+  public then<A = Result<T,E>, B = never>(
+    onfulfilled?: ((value: Result<T,E>) => A | PromiseLike<A>) | null,
+    onrejected?: ((reason: unknown) => B | PromiseLike<B>) | null,
+  ): PromiseLike<A | B> {
+    return this.promise.then(onfulfilled, onrejected)
+  }
+}
+
+export const okAsync = <T>(value: T): ResultAsync<T, never> => {
+  return new ResultAsync(Promise.resolve(new Ok(value)))
+}
+
+export const errAsync = <_, E>(error: E): ResultAsync<_, E> => {
+  return new ResultAsync(Promise.resolve(new Err<_, E>(error)))
+}
@@ -0,0 +1,88 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Result, Ok, Err } from './Result';
+
+/**
+ * `TaggedError` is a base class for errors that are told apart by their `_tag`. A union of
+ * tagged errors in an `Err` can be handled case by case with {@link Result.catchTag} and
+ * {@link Result.catchTags}, which remove the handled tags from the error type. The error that
+ * caused this one, if any, is kept as the `cause`.
+ *
+ * Example:
+ * ```
+ * class NotFound extends TaggedError<'NotFound'> {
+ *   constructor(readonly id: string) {
+ *     super('NotFound', `${id} was not found`)
+ *   }
+ * }
+ *
+ * class Forbidden extends TaggedError<'Forbidden'> {
+ *   constructor(cause?: unknown) {
+ *     super('Forbidden', 'Access denied', cause)
+ *   }
+ * }
+ *
+ * const user: Result<User, NotFound | Forbidden> = fetchUser(id);
+ * user.catchTag('NotFound', () => new Ok(guest)) // Result<User, Forbidden>
+ * ```
+ */
+export class TaggedError<Tag extends string> extends Error {
+  readonly _tag: Tag
+  readonly cause: unknown
+
+  constructor(tag: Tag, message?: string, cause?: unknown) {
+    super(message)
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = new.target.name
+    this._tag = tag
+    this.cause = cause
+  }
+}
+
+/**
+ * `TagOf` extracts the union of the `_tag` fields of an error type.
+ */
+export type TagOf<E> = E extends { _tag: infer K } ? K : never
+
+/**
+ * `WithTag` extracts the errors with the tag `K` from an error type.
+ */
+export type WithTag<E,K> = Extract<E, { _tag: K }>
+
+/**
+ * `WithoutTag` removes the errors with the tag `K` from an error type.
+ */
+export type WithoutTag<E,K> = Exclude<E, { _tag: K }>
+
+/**
+ * `TagResults` constrains the results `R` returned by the handlers of {@link Result.catchTags}
+ * to results, keyed by tags of the error type `E`. It refers to `R` itself so that the handlers
+ * do not impose `unknown` on the type of the results they create.
+ */
+export type TagResults<E,R> = {
+  [K in keyof R]: K extends TagOf<E> ? R[K] extends Result<unknown, unknown> ? R[K] : Result<unknown, unknown> : never
+}
+
+/**
+ * `TagHandlers` are the handlers of {@link Result.catchTags} returning the results `R`.
+ */
+export type TagHandlers<E,R> = { [K in keyof R]: (error: WithTag<E,K>) => R[K] }
+
+/**
+ * `HandledOk` and `HandledErr` extract the value and error types of the results returned by
+ * the handlers of {@link Result.catchTags}.
+ */
+export type HandledOk<R> = R extends Ok<infer T, unknown> ? T : never
+
+export type HandledErr<R> = R extends Err<unknown, infer F> ? F : never
+
+/**
+ * `tagOf` returns the `_tag` of an error, or `undefined` for an error without one.
+ */
+export const tagOf = (error: unknown): unknown => {
+  return typeof error === 'object' && error !== null ? (error as { _tag?: unknown })._tag : undefined
+}
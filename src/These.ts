@@ -0,0 +1,275 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Either, Left, Right } from './Either';
+import { Maybe, Some, none } from './Maybe';
+import { Result, Ok, Err } from './Result';
+
+/**
+ * `TheseMatcher` is a private interface used for matching on a `These`. See the documentation
+ * for {@link These.match} for usage.
+ */
+interface TheseMatcher<A,B,U,V,W> {
+  This: (a: A) => U;
+  That: (b: B) => V;
+  Both: (a: A, b: B) => W;
+}
+
+/**
+ * `These` holds an `A`, a `B` or both. It is useful for results that can succeed partially:
+ * a `That` is a value, a `Both` is a value with warnings and a `This` only has the warnings,
+ * or errors, without a value.
+ *
+ * Example:
+ * ```
+ * const parseConfig = (text: string): These<string[], Config> => { ... }
+ * parseConfig(text).match({
+ *   'This': (errors) => fail(errors),
+ *   'That': (config) => start(config),
+ *   'Both': (warnings, config) => { warn(warnings); start(config) },
+ * });
+ * ```
+ */
+export abstract class These<A,B> {
+  readonly __tag: 'This' | 'That' | 'Both'
+
+  /**
+   * `fromResult` converts a `Result` into a `These`, turning an `Ok` into a `That` and an `Err`
+   * into a `This`.
+   */
+  static fromResult<T,E>(result: Result<T,E>): These<E,T> {
+    return result.match<These<E,T>, These<E,T>>({
+      'Ok': (value) => new That(value),
+      'Err': (error) => new This(error),
+    })
+  }
+
+  /**
+   * `fromEither` converts an `Either` into a `These`, turning a `Left` into a `This` and a
+   * `Right` into a `That`.
+   */
+  static fromEither<A,B>(either: Either<A,B>): These<A,B> {
+    return either.match<These<A,B>, These<A,B>>({
+      'Left': (a) => new This(a),
+      'Right': (b) => new That(b),
+    })
+  }
+
+  /**
+   * `fromMaybes` creates a `These` from the values of the supplied `Maybe`s. It returns `None`
+   * when both of them are `None`.
+   *
+   * Example:
+   * ```
+   * These.fromMaybes(new Some("warning"), new Some(1))  // Some(Both("warning", 1))
+   * These.fromMaybes(new None(), new Some(1))           // Some(That(1))
+   * These.fromMaybes(new None(), new None())            // None
+   * ```
+   */
+  static fromMaybes<A,B>(a: Maybe<A>, b: Maybe<B>): Maybe<These<A,B>> {
+    if (a.isSome() && b.isSome()) {
+      return new Some(new Both(a.value, b.value))
+    } else if (a.isSome()) {
+      return new Some(new This(a.value))
+    } else if (b.isSome()) {
+      return new Some(new That(b.value))
+    }
+    return none()
+  }
+
+  /**
+   * isThis returns true if this is an instance of `This` and false otherwise. It is also used
+   * as a type guard.
+   */
+  public isThis(): this is This<A,B> {
+    return this.__tag === 'This'
+  }
+
+  /**
+   * isThat returns true if this is an instance of `That` and false otherwise. It is also used
+   * as a type guard.
+   */
+  public isThat(): this is That<A,B> {
+    return this.__tag === 'That'
+  }
+
+  /**
+   * isBoth returns true if this is an instance of `Both` and false otherwise. It is also used
+   * as a type guard.
+   */
+  public isBoth(): this is Both<A,B> {
+    return this.__tag === 'Both'
+  }
+
+  /**
+   * `match` calls the `This`, `That` or `Both` branch with the values.
+   *
+   * Example:
+   * ```
+   * const these: These<string, number> = new Both("rounded", 1);
+   * these.match({
+   *     'This': (warning) => warning,
+   *     'That': (value) => `${value}`,
+   *     'Both': (warning, value) => `${value} (${warning})`,
+   * }); // "1 (rounded)"
+   * ```
+   */
+  public match<U,V,W>(matcher: TheseMatcher<A,B,U,V,W>): U | V | W {
+    if (this.isThis()) {
+      return matcher.This(this.a)
+    } else if (this.isThat()) {
+      return matcher.That(this.b)
+    } else if (this.isBoth()) {
+      return matcher.Both(this.a, this.b)
+    }
+  }
+
+  /**
+   * `fold` calls `onThis`, `onThat` or `onBoth` with the values and returns the result. It is
+   * {@link These.match} with positional functions returning the same type.
+   */
+  public fold<U>(onThis: (a: A) => U, onThat: (b: B) => U, onBoth: (a: A, b: B) => U): U {
+    return this.match<U,U,U>({ 'This': onThis, 'That': onThat, 'Both': onBoth })
+  }
+
+  /**
+   * `mapThis` applies the supplied function to the `A` of a `This` or a `Both`.
+   */
+  public mapThis<C>(fn: (a: A) => C): These<C,B> {
+    return this.bimap(fn, (b) => b)
+  }
+
+  /**
+   * `mapThat` applies the supplied function to the `B` of a `That` or a `Both`.
+   */
+  public mapThat<C>(fn: (b: B) => C): These<A,C> {
+    return this.bimap((a) => a, fn)
+  }
+
+  /**
+   * `bimap` applies `onThis` to the `A` and `onThat` to the `B`, whichever are present.
+   */
+  public bimap<C,D>(onThis: (a: A) => C, onThat: (b: B) => D): These<C,D> {
+    return this.match<These<C,D>, These<C,D>, These<C,D>>({
+      'This': (a) => new This(onThis(a)),
+      'That': (b) => new That(onThat(b)),
+      'Both': (a, b) => new Both(onThis(a), onThat(b)),
+    })
+  }
+
+  /**
+   * `flatMap` applies the supplied function to the `B` of a `That` or a `Both`. When there are
+   * two `A`s, such as the warnings of a `Both` followed by the warnings of the result of the
+   * function, they are merged with `combine`. A `This` stops the chain.
+   *
+   * Example:
+   * ```
+   * const parsed: These<string[], number> = new Both(["rounded"], 1);
+   * parsed.flatMap((n) => new Both(["negative"], -n), (a, b) => [...a, ...b]) // Both(["rounded", "negative"], -1)
+   * ```
+   */
+  public flatMap<C>(fn: (b: B) => These<A,C>, combine: (first: A, second: A) => A): These<A,C> {
+    return this.match<These<A,C>, These<A,C>, These<A,C>>({
+      'This': (a) => new This(a),
+      'That': (b) => fn(b),
+      'Both': (a, b) => fn(b).match<These<A,C>, These<A,C>, These<A,C>>({
+        'This': (second) => new This(combine(a, second)),
+        'That': (c) => new Both(a, c),
+        'Both': (second, c) => new Both(combine(a, second), c),
+      }),
+    })
+  }
+
+  /**
+   * `swap` turns a `This` into a `That`, a `That` into a `This` and swaps the values of a
+   * `Both`.
+   */
+  public swap(): These<B,A> {
+    return this.match<These<B,A>, These<B,A>, These<B,A>>({
+      'This': (a) => new That(a),
+      'That': (b) => new This(b),
+      'Both': (a, b) => new Both(b, a),
+    })
+  }
+
+  /**
+   * `getThis` returns the `A` of a `This` or a `Both` as a `Some`, or `None` for a `That`.
+   */
+  public getThis(): Maybe<A> {
+    return this.match<Maybe<A>, Maybe<A>, Maybe<A>>({
+      'This': (a) => new Some(a),
+      'That': () => none(),
+      'Both': (a) => new Some(a),
+    })
+  }
+
+  /**
+   * `getThat` returns the `B` of a `That` or a `Both` as a `Some`, or `None` for a `This`.
+   */
+  public getThat(): Maybe<B> {
+    return this.match<Maybe<B>, Maybe<B>, Maybe<B>>({
+      'This': () => none(),
+      'That': (b) => new Some(b),
+      'Both': (_, b) => new Some(b),
+    })
+  }
+
+  /**
+   * `toResult` converts this `These` into a `Result`. A `That` or a `Both` becomes an `Ok`,
+   * dropping the `A` of a `Both`, and a `This` becomes an `Err`.
+   */
+  public toResult(): Result<B,A> {
+    return this.match<Result<B,A>, Result<B,A>, Result<B,A>>({
+      'This': (a) => new Err(a),
+      'That': (b) => new Ok(b),
+      'Both': (_, b) => new Ok(b),
+    })
+  }
+
+  /**
+   * `toEither` converts this `These` into an `Either`. A `That` or a `Both` becomes a `Right`,
+   * dropping the `A` of a `Both`, and a `This` becomes a `Left`.
+   */
+  public toEither(): Either<A,B> {
+    return this.match<Either<A,B>, Either<A,B>, Either<A,B>>({
+      'This': (a) => new Left(a),
+      'That': (b) => new Right(b),
+      'Both': (_, b) => new Right(b),
+    })
+  }
+}
+
+export class This<A,B> extends These<A,B> {
+  readonly __tag = 'This'
+  readonly a: A
+
+  constructor(a: A) {
+    super()
+    this.a = a
+  }
+}
+
+export class That<A,B> extends These<A,B> {
+  readonly __tag = 'That'
+  readonly b: B
+
+  constructor(b: B) {
+    super()
+    this.b = b
+  }
+}
+
+export class Both<A,B> extends These<A,B> {
+  readonly __tag = 'Both'
+  readonly a: A
+  readonly b: B
+
+  constructor(a: A, b: B) {
+    super()
+    this.a = a
+    this.b = b
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+/**
+ * `UnwrapError` is thrown when unwrapping a `Result` or `Maybe` fails, for example when calling
+ * {@link Result.unwrap} on an `Err`. The value that was found instead of the expected one is
+ * kept as the `cause` so the original error, including its stack, is not lost.
+ *
+ * Example:
+ * ```
+ * try {
+ *   new Err(new TypeError("boom")).unwrap();
+ * } catch (e) {
+ *   e instanceof UnwrapError // true
+ *   e.cause                  // TypeError("boom")
+ * }
+ * ```
+ */
+export class UnwrapError extends Error {
+  readonly cause: unknown
+
+  constructor(message: string, cause?: unknown) {
+    super(message)
+    Object.setPrototypeOf(this, new.target.prototype)
+    this.name = new.target.name
+    this.cause = cause
+  }
+}
+
+/**
+ * `UnwrapNoneError` is the `UnwrapError` thrown when unwrapping a `None`. As a `None` does not
+ * hold a value it has no `cause`.
+ */
+export class UnwrapNoneError extends UnwrapError {
+  constructor(message = "Unwrap called on None value") {
+    super(message)
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Result, Ok, Err, toRecord } from './Result';
+
+/**
+ * `NonEmptyArray` is an array that is guaranteed to contain at least one element.
+ */
+export type NonEmptyArray<T> = [T, ...T[]]
+
+/**
+ * `ValidationMatcher` is a private interface used for matching on a `Validation`. See the
+ * documentation for {@link Validation.match} for usage.
+ */
+interface ValidationMatcher<T,U,E,F> {
+  Valid: (value: T) => U;
+  Invalid: (errors: NonEmptyArray<E>) => F;
+}
+
+/**
+ * `ValidOf` extracts the value type of a `Validation`.
+ */
+type ValidOf<V> = V extends Validation<infer T, unknown> ? T : never
+
+/**
+ * `InvalidOf` extracts the error type of a `Validation`. Used on a union of validations it
+ * gives the union of all their errors.
+ */
+type InvalidOf<V> = V extends Validation<unknown, infer E> ? E : never
+
+/**
+ * `ValidsOf` maps a tuple of validations to the tuple of their value types.
+ */
+type ValidsOf<V> = { -readonly [K in keyof V]: ValidOf<V[K]> }
+
+/**
+ * `Validation` is similar to {@link Result} but is meant for validating input where every
+ * problem should be reported at once. A `Validation` is either `Valid` containing a value or
+ * `Invalid` containing a non-empty list of errors. Combining validations with
+ * {@link Validation.combine}, {@link Validation.mapN} or {@link Validation.validateStruct}
+ * accumulates the errors of all of them instead of stopping at the first one.
+ *
+ * Example:
+ * ```
+ * const form = Validation.validateStruct({
+ *   name: validateName(input.name),  // Validation<string, string>
+ *   age: validateAge(input.age),     // Validation<number, string>
+ * });
+ * form.toResult() // Err(["name is empty", "age must be positive"])
+ * ```
+ */
+export abstract class Validation<T,E> {
+  readonly __tag: string
+
+  /**
+   * `fromResult` converts a `Result` into a `Validation`. An `Err` becomes an `Invalid` with
+   * the error as the only element.
+   */
+  static fromResult<T,E>(result: Result<T,E>): Validation<T,E> {
+    return result.match<Validation<T,E>, Validation<T,E>>({
+      'Ok': (value) => new Valid(value),
+      'Err': (error) => new Invalid([error]),
+    })
+  }
+
+  /**
+   * `fromResultErrors` converts a `Result` with a non-empty list of errors into a `Validation`.
+   * It is the inverse of {@link Validation.toResult}.
+   */
+  static fromResultErrors<T,E>(result: Result<T, NonEmptyArray<E>>): Validation<T,E> {
+    return result.match<Validation<T,E>, Validation<T,E>>({
+      'Ok': (value) => new Valid(value),
+      'Err': (errors) => new Invalid(errors),
+    })
+  }
+
+  /**
+   * `combine` turns an array or tuple of validations into a single `Validation` containing all
+   * the values. If any of them is `Invalid` the errors of all of them are accumulated, in order.
+   *
+   * Example:
+   * ```
+   * Validation.combine([valid(1), valid("foo")])                  // Valid([1, "foo"])
+   * Validation.combine([invalid("a"), valid(1), invalid("b")])    // Invalid(["a", "b"])
+   * ```
+   */
+  static combine<V extends readonly Validation<unknown, unknown>[] | []>(validations: V): Validation<ValidsOf<V>, InvalidOf<V[number]>>
+  static combine(validations: readonly Validation<unknown, unknown>[]): Validation<unknown, unknown> {
+    const values: unknown[] = []
+    const errors: unknown[] = []
+    for (const validation of validations) {
+      validation.match({
+        'Valid': (value) => values.push(value),
+        'Invalid': (invalid) => errors.push(...invalid),
+      })
+    }
+    return errors.length > 0 ? new Invalid(errors as NonEmptyArray<unknown>) : new Valid(values)
+  }
+
+  /**
+   * `mapN` combines the supplied validations like {@link Validation.combine} and applies the
+   * function to the values if all of them are `Valid`.
+   *
+   * Example:
+   * ```
+   * Validation.mapN([valid(1), valid(2)], (a, b) => a + b) // Valid(3)
+   * ```
+   */
+  static mapN<V extends readonly Validation<unknown, unknown>[] | [], U>(
+    validations: V,
+    fn: (...values: Extract<ValidsOf<V>, unknown[]>) => U,
+  ): Validation<U, InvalidOf<V[number]>> {
+    return Validation.combine(validations).map((values) => fn(...values as Extract<ValidsOf<V>, unknown[]>))
+  }
+
+  /**
+   * `validateStruct` turns a record of validations into a single `Validation` of a record with
+   * the same keys, accumulating the errors of all of them.
+   *
+   * Example:
+   * ```
+   * Validation.validateStruct({ a: valid(1), b: valid("foo") }) // Valid({ a: 1, b: "foo" })
+   * Validation.validateStruct({ a: invalid("a"), b: invalid("b") }) // Invalid(["a", "b"])
+   * ```
+   */
+  static validateStruct<V extends Record<string, Validation<unknown, unknown>>>(validations: V): Validation<{ [K in keyof V]: ValidOf<V[K]> }, InvalidOf<V[keyof V]>> {
+    const keys = Object.keys(validations)
+    return Validation.combine(keys.map((key) => validations[key])).map((values) => {
+      return toRecord(keys, values) as { [K in keyof V]: ValidOf<V[K]> }
+    }) as Validation<{ [K in keyof V]: ValidOf<V[K]> }, InvalidOf<V[keyof V]>>
+  }
+
+  /**
+   * isValid returns true if this is an instance of `Valid` and false otherwise. It is also
+   * used as a type guard.
+   */
+  public isValid(): this is Valid<T,E> {
+    return this.__tag === 'Valid'
+  }
+
+  /**
+   * isInvalid returns true if this is an instance of `Invalid` and false otherwise. It is also
+   * used as a type guard.
+   */
+  public isInvalid(): this is Invalid<T,E> {
+    return !this.isValid()
+  }
+
+  /**
+   * `match` calls the `Valid` branch with the value or the `Invalid` branch with all the errors.
+   *
+   * Example:
+   * ```
+   * const validation: Validation<number, string> = invalid("too small");
+   * validation.match({
+   *     'Valid': (value) => `${value}`,
+   *     'Invalid': (errors) => errors.join(", "),
+   * }); // "too small"
+   * ```
+   */
+  public match<U,F>(matcher: ValidationMatcher<T,U,E,F>): U | F {
+    if (this.isValid()) {
+      return matcher.Valid(this.value)
+    } else if (this.isInvalid()) {
+      return matcher.Invalid(this.errors)
+    }
+  }
+
+  /**
+   * `toResult` converts this `Validation` into a `Result` with the non-empty list of errors as
+   * the error.
+   */
+  public toResult(): Result<T, NonEmptyArray<E>> {
+    return this.match<Result<T, NonEmptyArray<E>>, Result<T, NonEmptyArray<E>>>({
+      'Valid': (value) => new Ok(value),
+      'Invalid': (errors) => new Err(errors),
+    })
+  }
+
+  /**
+   * `map` applies the supplied function to the value of a `Valid`. It will simply pass through
+   * `Invalid` values.
+   */
+  abstract map<U>(fn: (value: T) => U): Validation<U,E>
+
+  /**
+   * `mapErr` applies the supplied function to every error of an `Invalid`.
+   */
+  abstract mapErr<F>(fn: (error: E) => F): Validation<T,F>
+
+  /**
+   * `flatMap` applies the supplied function to the value of a `Valid`. Unlike
+   * {@link Validation.combine} this is sequential, so an `Invalid` stops the chain.
+   */
+  abstract flatMap<U,F>(fn: (value: T) => Validation<U,F>): Validation<U, E | F>
+
+  /**
+   * `unwrapOr` returns the value contained in the `Valid` or the supplied value.
+   */
+  abstract unwrapOr(value: T): T
+}
+
+export class Valid<T,E = never> extends Validation<T,E> {
+  readonly __tag = 'Valid'
+  readonly value: T
+
+  constructor(value: T) {
+    super()
+    this.value = value
+  }
+
+  public map<U>(fn: (value: T) => U): Validation<U,E> {
+    return new Valid(fn(this.value))
+  }
+
+  public mapErr<F>(_: (error: E) => F): Validation<T,F> {
+    return new Valid(this.value)
+  }
+
+  public flatMap<U,F>(fn: (value: T) => Validation<U,F>): Validation<U, E | F> {
+    return fn(this.value)
+  }
+
+  public unwrapOr(_: T): T {
+    return this.value
+  }
+}
+
+export class Invalid<T,E> extends Validation<T,E> {
+  readonly __tag = 'Invalid'
+  readonly errors: NonEmptyArray<E>
+
+  constructor(errors: NonEmptyArray<E>) {
+    super()
+    this.errors = errors
+  }
+
+  public map<U>(_: (value: T) => U): Validation<U,E> {
+    return new Invalid(this.errors)
+  }
+
+  public mapErr<F>(fn: (error: E) => F): Validation<T,F> {
+    const [first, ...rest] = this.errors
+    return new Invalid([fn(first), ...rest.map(fn)])
+  }
+
+  public flatMap<U,F>(_: (value: T) => Validation<U,F>): Validation<U, E | F> {
+    return new Invalid<U, E | F>(this.errors)
+  }
+
+  public unwrapOr(value: T): T {
+    return value
+  }
+}
+
+export const valid = <T>(value: T): Validation<T, never> => {
+  return new Valid(value)
+}
+
+export const invalid = <_, E>(error: E): Validation<_, E> => {
+  return new Invalid([error])
+}
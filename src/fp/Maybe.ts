@@ -0,0 +1,105 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+/**
+ * The `picofp/Maybe` entry point. Every method of {@link Maybe} is available here as a
+ * standalone function taking the `Maybe` last, so that it can be used with {@link pipe} and
+ * {@link flow}. Methods without arguments, such as `unwrap`, take the `Maybe` directly.
+ *
+ * Example:
+ * ```
+ * import * as M from "picofp/Maybe";
+ *
+ * pipe(
+ *   M.fromNullable(map.get("key")),
+ *   M.filter((value) => value.length > 0),
+ *   M.map((value) => value.toUpperCase()),
+ *   M.unwrapOr("default"),
+ * )
+ * ```
+ */
+
+import { Compare, Eq } from '../Equality';
+import { MaybeJSON } from '../Json';
+import { MaybeCases } from '../Match';
+import { Maybe, Some, None, some, none } from '../Maybe';
+import { MaybeAsync } from '../MaybeAsync';
+import { Result } from '../Result';
+
+export { Maybe, some, none }
+export { pipe, flow } from '../Pipe';
+
+export const fromNullable = <T>(value: T | null | undefined): Maybe<NonNullable<T>> => Maybe.fromNullable(value)
+
+export const isSome = <T>(maybe: Maybe<T>): maybe is Some<T> => maybe.isSome()
+
+export const isNone = <T>(maybe: Maybe<T>): maybe is None<T> => maybe.isNone()
+
+export function match<T,R>(cases: MaybeCases<T,R>): (maybe: Maybe<T>) => R
+export function match<T,U,V>(matcher: { Some: (value: T) => U; None: () => V }): (maybe: Maybe<T>) => U | V
+export function match<T,R>(cases: MaybeCases<T,R>): (maybe: Maybe<T>) => R {
+  return (maybe) => maybe.match(cases)
+}
+
+export const toAsync = <T>(maybe: Maybe<T>): MaybeAsync<T> => maybe.toAsync()
+
+export const equals = <T>(other: Maybe<T>, eq?: Eq<T>) => (maybe: Maybe<T>): boolean => maybe.equals(other, eq)
+
+export const compare = <T>(other: Maybe<T>, cmp?: Compare<T>) => (maybe: Maybe<T>): number => maybe.compare(other, cmp)
+
+export const contains = <T>(value: T, eq?: Eq<T>) => (maybe: Maybe<T>): boolean => maybe.contains(value, eq)
+
+export const unwrap = <T>(maybe: Maybe<T>): T => maybe.unwrap()
+
+export const expect = (message: string) => <T>(maybe: Maybe<T>): T => maybe.expect(message)
+
+export const unwrapOr = <T>(value: T) => (maybe: Maybe<T>): T => maybe.unwrapOr(value)
+
+export const map = <T,U>(fn: (value: T) => U) => (maybe: Maybe<T>): Maybe<U> => maybe.map(fn)
+
+export const mapOr = <T,U>(fn: (value: T) => U, def: U) => (maybe: Maybe<T>): Maybe<U> => maybe.mapOr(fn, def)
+
+export const flatMap = <T,U>(fn: (value: T) => Maybe<U>) => (maybe: Maybe<T>): Maybe<U> => maybe.flatMap(fn)
+
+export function filter<T, S extends T>(predicate: (value: T) => value is S): (maybe: Maybe<T>) => Maybe<S>
+export function filter<T>(predicate: (value: T) => boolean): (maybe: Maybe<T>) => Maybe<T>
+export function filter<T>(predicate: (value: T) => boolean): (maybe: Maybe<T>) => Maybe<T> {
+  return (maybe) => maybe.filter(predicate)
+}
+
+export const or = <T>(other: Maybe<T>) => (maybe: Maybe<T>): Maybe<T> => maybe.or(other)
+
+export const orElse = <T>(fn: () => Maybe<T>) => (maybe: Maybe<T>): Maybe<T> => maybe.orElse(fn)
+
+export const xor = <T>(other: Maybe<T>) => (maybe: Maybe<T>): Maybe<T> => maybe.xor(other)
+
+export const zip = <U>(other: Maybe<U>) => <T>(maybe: Maybe<T>): Maybe<[T, U]> => maybe.zip(other)
+
+export const zipWith = <T,U,R>(other: Maybe<U>, fn: (value: T, other: U) => R) => (maybe: Maybe<T>): Maybe<R> => maybe.zipWith(other, fn)
+
+export const unzip = <A,B>(maybe: Maybe<[A, B]>): [Maybe<A>, Maybe<B>] => maybe.unzip()
+
+export const okOr = <E>(error: E) => <T>(maybe: Maybe<T>): Result<T,E> => maybe.okOr(error)
+
+export const okOrElse = <E>(fn: () => E) => <T>(maybe: Maybe<T>): Result<T,E> => maybe.okOrElse(fn)
+
+export const unwrapOrElse = <T>(fn: () => T) => (maybe: Maybe<T>): T => maybe.unwrapOrElse(fn)
+
+export const flatten = <T>(maybe: Maybe<Maybe<T>>): Maybe<T> => maybe.flatten()
+
+export const transpose = <T,E>(maybe: Maybe<Result<T,E>>): Result<Maybe<T>,E> => maybe.transpose()
+
+export const tap = <T>(fn: (value: T) => void) => (maybe: Maybe<T>): Maybe<T> => maybe.tap(fn)
+
+export const toNullable = <T>(maybe: Maybe<T>): T | null => maybe.toNullable()
+
+export const toUndefined = <T>(maybe: Maybe<T>): T | undefined => maybe.toUndefined()
+
+export const isSomeAnd = <T>(predicate: (value: T) => boolean) => (maybe: Maybe<T>): boolean => maybe.isSomeAnd(predicate)
+
+export const iter = <T>(maybe: Maybe<T>): IterableIterator<T> => maybe.iter()
+
+export const toJSON = <T>(maybe: Maybe<T>): MaybeJSON<T> => maybe.toJSON()
@@ -0,0 +1,112 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+/**
+ * The `picofp/Result` entry point. Every method of {@link Result} is available here as a
+ * standalone function taking the `Result` last, so that it can be used with {@link pipe} and
+ * {@link flow}. Methods without arguments, such as `unwrap`, take the `Result` directly. As
+ * `ok` and `err` create results here, the `ok()` and `err()` methods are available as `getOk`
+ * and `getErr`.
+ *
+ * Example:
+ * ```
+ * import * as R from "picofp/Result";
+ *
+ * pipe(
+ *   R.ok(" 42 "),
+ *   R.map((text) => text.trim()),
+ *   R.flatMap(parseNumber),
+ *   R.unwrapOr(0),
+ * ) // 42
+ * ```
+ */
+
+import { Compare, Eq } from '../Equality';
+import { ResultJSON } from '../Json';
+import { ResultCases } from '../Match';
+import { Maybe } from '../Maybe';
+import { Result, Ok, Err, ok, err } from '../Result';
+import { ResultAsync } from '../ResultAsync';
+import { TagOf, WithTag, WithoutTag, TagResults, TagHandlers, HandledOk, HandledErr } from '../TaggedError';
+
+export { Result, ok, err }
+export { pipe, flow } from '../Pipe';
+
+export const isOk = <T,E>(result: Result<T,E>): result is Ok<T,E> => result.isOk()
+
+export const isErr = <T,E>(result: Result<T,E>): result is Err<T,E> => result.isErr()
+
+export function match<T,E,R>(cases: ResultCases<T,E,R>): (result: Result<T,E>) => R
+export function match<T,E,U,F>(matcher: { Ok: (value: T) => U; Err: (error: E) => F }): (result: Result<T,E>) => U | F
+export function match<T,E,R>(cases: ResultCases<T,E,R>): (result: Result<T,E>) => R {
+  return (result) => result.match(cases)
+}
+
+export const toAsync = <T,E>(result: Result<T,E>): ResultAsync<T,E> => result.toAsync()
+
+export const equals = <T,E>(other: Result<T,E>, eq?: Eq<T>, eqErr?: Eq<E>) => (result: Result<T,E>): boolean => result.equals(other, eq, eqErr)
+
+export const compare = <T,E>(other: Result<T,E>, cmp?: Compare<T>, cmpErr?: Compare<E>) => (result: Result<T,E>): number => result.compare(other, cmp, cmpErr)
+
+export const contains = <T,E>(value: T | E, eq?: Eq<T | E>) => (result: Result<T,E>): boolean => result.contains(value, eq)
+
+export const getOk = <T,E>(result: Result<T,E>): Maybe<T> => result.ok()
+
+export const getErr = <T,E>(result: Result<T,E>): Maybe<E> => result.err()
+
+export const unwrap = <T,E>(result: Result<T,E>): T => result.unwrap()
+
+export const unwrapErr = <T,E>(result: Result<T,E>): E => result.unwrapErr()
+
+export const expect = (message: string) => <T,E>(result: Result<T,E>): T => result.expect(message)
+
+export const expectErr = (message: string) => <T,E>(result: Result<T,E>): E => result.expectErr(message)
+
+export const unwrapOr = <T>(value: T) => <E>(result: Result<T,E>): T => result.unwrapOr(value)
+
+export const map = <T,U>(fn: (value: T) => U) => <E>(result: Result<T,E>): Result<U,E> => result.map(fn)
+
+export const mapOr = <T,U>(fn: (value: T) => U, def: U) => <E>(result: Result<T,E>): Result<U,E> => result.mapOr(fn, def)
+
+export const mapErr = <E,F>(fn: (error: E) => F) => <T>(result: Result<T,E>): Result<T,F> => result.mapErr(fn)
+
+export const flatMap = <T,U,F>(fn: (value: T) => Result<U,F>) => <E>(result: Result<T,E>): Result<U, E | F> => result.flatMap(fn)
+
+export const andThen = <T,U,F>(fn: (value: T) => Result<U,F>) => <E>(result: Result<T,E>): Result<U, E | F> => result.andThen(fn)
+
+export const and = <U,F>(other: Result<U,F>) => <T,E>(result: Result<T,E>): Result<U, E | F> => result.and(other)
+
+export const or = <U,F>(other: Result<U,F>) => <T,E>(result: Result<T,E>): Result<T | U, F> => result.or(other)
+
+export const orElse = <E,U,F>(fn: (error: E) => Result<U,F>) => <T>(result: Result<T,E>): Result<T | U, F> => result.orElse(fn)
+
+export const catchTag = <E, K extends TagOf<E>, U, F = never>(tag: K, handler: (error: WithTag<E,K>) => Result<U,F>) => <T>(result: Result<T,E>): Result<T | U, WithoutTag<E,K> | F> => {
+  return result.catchTag(tag, handler)
+}
+
+export const catchTags = <E, R extends TagResults<E,R>>(handlers: TagHandlers<E,R>) => <T>(result: Result<T,E>): Result<T | HandledOk<R[keyof R]>, WithoutTag<E, keyof R> | HandledErr<R[keyof R]>> => {
+  return result.catchTags(handlers)
+}
+
+export const mapOrElse = <T,E,U>(fn: (value: T) => U, def: (error: E) => U) => (result: Result<T,E>): Result<U,E> => result.mapOrElse(fn, def)
+
+export const unwrapOrElse = <T,E>(fn: (error: E) => T) => (result: Result<T,E>): T => result.unwrapOrElse(fn)
+
+export const inspect = <T>(fn: (value: T) => void) => <E>(result: Result<T,E>): Result<T,E> => result.inspect(fn)
+
+export const inspectErr = <E>(fn: (error: E) => void) => <T>(result: Result<T,E>): Result<T,E> => result.inspectErr(fn)
+
+export const isOkAnd = <T>(predicate: (value: T) => boolean) => <E>(result: Result<T,E>): boolean => result.isOkAnd(predicate)
+
+export const isErrAnd = <E>(predicate: (error: E) => boolean) => <T>(result: Result<T,E>): boolean => result.isErrAnd(predicate)
+
+export const iter = <T,E>(result: Result<T,E>): IterableIterator<T> => result.iter()
+
+export const flatten = <T,E,F>(result: Result<Result<T,F>,E>): Result<T, E | F> => result.flatten()
+
+export const transpose = <T,E>(result: Result<Maybe<T>,E>): Maybe<Result<T,E>> => result.transpose()
+
+export const toJSON = <T,E>(result: Result<T,E>): ResultJSON<T,E> => result.toJSON()
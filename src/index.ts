@@ -6,5 +6,39 @@
 
 import { Maybe, Some, None, some, none } from './Maybe';
 import { Result, Ok, Err, ok, err } from './Result';
+import { MaybeAsync, someAsync, noneAsync } from './MaybeAsync';
+import { ResultAsync, okAsync, errAsync } from './ResultAsync';
+import { Validation, Valid, Invalid, NonEmptyArray, valid, invalid } from './Validation';
+import { UnwrapError, UnwrapNoneError } from './UnwrapError';
+import { Eq, Compare, strictEqual, deepEqual, defaultCompare } from './Equality';
+import { Decoder, DecodeError, Decoded } from './Decoder';
+import { match, when, Guard, MatchBuilder, Pattern, Branch, ResultCases, MaybeCases } from './Match';
+import { TaggedError, TagOf, WithTag, WithoutTag } from './TaggedError';
+import { Either, Left, Right, left, right } from './Either';
+import { These, This, That, Both } from './These';
+import { AnyIterable, filterMap, collectResults, takeWhileOk, partitionResults, findMap, filterMapAsync, collectResultsAsync, takeWhileOkAsync, partitionResultsAsync, findMapAsync } from './Iterable';
+import { Clock, systemClock, RetryOptions, TimeoutError, CircuitOpenError, exponentialBackoff, retry, withTimeout, fallback, CircuitState, CircuitBreakerOptions, CircuitBreaker } from './Resilience';
+import { ResultChain, MaybeChain } from './Chain';
+import { setErrTracing, isErrTracing, setFreezing, isFreezing } from './Debug';
+import { ReaderResult } from './ReaderResult';
+import { ReaderResultAsync } from './ReaderResultAsync';
+import { pipe, flow } from './Pipe';
+import { OkJSON, ErrJSON, SomeJSON, NoneJSON, ResultJSON, MaybeJSON, reviver, revive } from './Json';
 
 export { Maybe, Some, None, Result, Ok, Err, some, none, ok, err };
+export { MaybeAsync, someAsync, noneAsync, ResultAsync, okAsync, errAsync };
+export { Validation, Valid, Invalid, NonEmptyArray, valid, invalid };
+export { UnwrapError, UnwrapNoneError };
+export { Eq, Compare, strictEqual, deepEqual, defaultCompare };
+export { OkJSON, ErrJSON, SomeJSON, NoneJSON, ResultJSON, MaybeJSON, reviver, revive };
+export { Decoder, DecodeError, Decoded };
+export { match, when, Guard, MatchBuilder, Pattern, Branch, ResultCases, MaybeCases };
+export { TaggedError, TagOf, WithTag, WithoutTag };
+export { pipe, flow };
+export { Either, Left, Right, left, right };
+export { These, This, That, Both };
+export { AnyIterable, filterMap, collectResults, takeWhileOk, partitionResults, findMap, filterMapAsync, collectResultsAsync, takeWhileOkAsync, partitionResultsAsync, findMapAsync };
+export { Clock, systemClock, RetryOptions, TimeoutError, CircuitOpenError, exponentialBackoff, retry, withTimeout, fallback, CircuitState, CircuitBreakerOptions, CircuitBreaker };
+export { ResultChain, MaybeChain };
+export { setErrTracing, isErrTracing, setFreezing, isFreezing };
+export { ReaderResult, ReaderResultAsync };
@@ -0,0 +1,24 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+/**
+ * The `picofp/jest` entry point. Importing it, for example from a file listed in Jest's
+ * `setupFilesAfterEnv`, registers the {@link matchers} for `Maybe` and `Result` and adds their
+ * types to `expect`.
+ *
+ * Example:
+ * ```
+ * // jest.config.json: "setupFilesAfterEnv": ["picofp/jest"]
+ * expect(parse("1")).toBeOkWith(1);
+ * expect(parse("a")).toBeErr();
+ * ```
+ */
+
+import { matchers } from './matchers';
+
+expect.extend(matchers)
+
+export { matchers };
@@ -0,0 +1,138 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import { Maybe } from '../Maybe';
+import { Result } from '../Result';
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  namespace jest {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    interface Matchers<R, T> {
+      /**
+       * `toBeOk` checks that the received value is an `Ok`.
+       */
+      toBeOk(): R;
+      /**
+       * `toBeOkWith` checks that the received value is an `Ok` whose value equals the supplied
+       * value, recursively like `toEqual`. The value may contain asymmetric matchers.
+       */
+      toBeOkWith(value: unknown): R;
+      /**
+       * `toBeErr` checks that the received value is an `Err`.
+       */
+      toBeErr(): R;
+      /**
+       * `toBeErrWith` checks that the received value is an `Err` whose error equals the
+       * supplied error, recursively like `toEqual`. The error may contain asymmetric matchers.
+       */
+      toBeErrWith(error: unknown): R;
+      /**
+       * `toBeSome` checks that the received value is a `Some`, whose value equals the supplied
+       * value if there is one.
+       */
+      toBeSome(value?: unknown): R;
+      /**
+       * `toBeNone` checks that the received value is a `None`.
+       */
+      toBeNone(): R;
+    }
+  }
+}
+
+type Tag = 'Ok' | 'Err' | 'Some' | 'None'
+
+/**
+ * `contentsOf` returns the value or error held by a container.
+ */
+const contentsOf = (container: unknown): unknown => {
+  if (Result.isResult(container)) {
+    return container.isOk() ? container.value : container.unwrapErr()
+  }
+  return Maybe.isMaybe(container) && container.isSome() ? container.value : undefined
+}
+
+/**
+ * `tagOf` returns the tag of a container, or `undefined` for anything else.
+ */
+const tagOf = (value: unknown): Tag | undefined => {
+  return Result.isResult(value) || Maybe.isMaybe(value) ? value.__tag : undefined
+}
+
+/**
+ * `print` prints a received container with its contents, such as `Ok({"id": 1})`.
+ */
+const print = (context: jest.MatcherContext, received: unknown): string => {
+  const tag = tagOf(received)
+  if (tag === undefined) {
+    return context.utils.printReceived(received)
+  }
+  return context.utils.RECEIVED_COLOR(tag === 'None' ? 'None' : `${tag}(${context.utils.stringify(contentsOf(received))})`)
+}
+
+/**
+ * `matchContainer` checks that `received` is a container with the supplied tag and, if an
+ * expected value is supplied, that its contents equal it. A failure prints the received
+ * container, or a diff of the contents when only they differ.
+ */
+const matchContainer = (
+  context: jest.MatcherContext,
+  matcherName: string,
+  received: unknown,
+  tag: Tag,
+  expected: unknown[],
+): jest.CustomMatcherResult => {
+  const hasTag = tagOf(received) === tag
+  const compare = expected.length > 0
+  const contents = contentsOf(received)
+  const pass = hasTag && (!compare || context.equals(contents, expected[0], [context.utils.iterableEquality]))
+  const hint = context.utils.matcherHint(matcherName, undefined, compare ? undefined : '', { isNot: context.isNot })
+  const expectedText = compare ? `${tag}(${context.utils.printExpected(expected[0])})` : tag
+  const message = () => {
+    if (hasTag && compare && !pass) {
+      return `${hint}\n\n${context.utils.printDiffOrStringify(expected[0], contents, `Expected ${tag}`, `Received ${tag}`, context.expand)}`
+    }
+    return `${hint}\n\nExpected: ${context.isNot ? 'not ' : ''}${expectedText}\nReceived: ${print(context, received)}`
+  }
+  return { pass, message }
+}
+
+/**
+ * `matchers` are the Jest matchers for `Maybe` and `Result`. Importing `picofp/jest` registers
+ * them, they are exported for setups that call `expect.extend` themselves.
+ *
+ * Example:
+ * ```
+ * expect(parse("1")).toBeOkWith(1);
+ * expect(fetchUser(id)).toBeErrWith(expect.objectContaining({ _tag: 'NotFound' }));
+ * expect(lookup("missing")).toBeNone();
+ * ```
+ */
+export const matchers = {
+  toBeOk(this: jest.MatcherContext, received: unknown): jest.CustomMatcherResult {
+    return matchContainer(this, 'toBeOk', received, 'Ok', [])
+  },
+
+  toBeOkWith(this: jest.MatcherContext, received: unknown, value: unknown): jest.CustomMatcherResult {
+    return matchContainer(this, 'toBeOkWith', received, 'Ok', [value])
+  },
+
+  toBeErr(this: jest.MatcherContext, received: unknown): jest.CustomMatcherResult {
+    return matchContainer(this, 'toBeErr', received, 'Err', [])
+  },
+
+  toBeErrWith(this: jest.MatcherContext, received: unknown, error: unknown): jest.CustomMatcherResult {
+    return matchContainer(this, 'toBeErrWith', received, 'Err', [error])
+  },
+
+  toBeSome(this: jest.MatcherContext, received: unknown, ...value: unknown[]): jest.CustomMatcherResult {
+    return matchContainer(this, 'toBeSome', received, 'Some', value)
+  },
+
+  toBeNone(this: jest.MatcherContext, received: unknown): jest.CustomMatcherResult {
+    return matchContainer(this, 'toBeNone', received, 'None', [])
+  },
+}
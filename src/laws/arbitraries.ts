@@ -0,0 +1,42 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import * as fc from 'fast-check';
+import { Maybe, Some, none } from '../Maybe';
+import { Result, Ok, Err } from '../Result';
+
+/**
+ * `arbMaybe` is a fast-check arbitrary generating a `None` or a `Some` holding a value of the
+ * supplied arbitrary. Failing cases shrink towards `None`.
+ *
+ * Example:
+ * ```
+ * fc.assert(fc.property(arbMaybe(fc.integer()), (maybe) => maybe.map((n) => n).equals(maybe)));
+ * ```
+ */
+export const arbMaybe = <T>(value: fc.Arbitrary<T>): fc.Arbitrary<Maybe<T>> => {
+  return fc.oneof(
+    { withCrossShrink: true },
+    fc.constant(null).map((): Maybe<T> => none()),
+    value.map((value): Maybe<T> => new Some(value)),
+  )
+}
+
+/**
+ * `arbResult` is a fast-check arbitrary generating an `Ok` holding a value of the first
+ * arbitrary or an `Err` holding an error of the second one.
+ *
+ * Example:
+ * ```
+ * fc.assert(fc.property(arbResult(fc.integer(), fc.string()), (result) => result.ok().isSome() === result.isOk()));
+ * ```
+ */
+export const arbResult = <T,E>(value: fc.Arbitrary<T>, error: fc.Arbitrary<E>): fc.Arbitrary<Result<T,E>> => {
+  return fc.oneof(
+    value.map((value): Result<T,E> => new Ok(value)),
+    error.map((error): Result<T,E> => new Err(error)),
+  )
+}
@@ -0,0 +1,32 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+/**
+ * The `picofp/laws` entry point. It needs `fast-check`, which is an optional peer dependency,
+ * and exports arbitraries for `Maybe` and `Result` together with property based laws that
+ * check the containers of picofp or of any library building on it.
+ *
+ * Example:
+ * ```
+ * import * as fc from "fast-check";
+ * import { maybeLaws, resultLaws } from "picofp/laws";
+ *
+ * [...maybeLaws(fc.integer()), ...resultLaws(fc.integer(), fc.string())]
+ *   .forEach((law) => it(law.name, () => law.check()));
+ * ```
+ */
+
+import { arbMaybe, arbResult } from './arbitraries';
+import {
+  Law, LawParameters, FunctorInstance, MonadInstance, functorLaws, monadLaws, maybeMonad, resultMonad, resultErrFunctor,
+  conversionLaws, maybeLaws, resultLaws, checkLaws,
+} from './laws';
+
+export { arbMaybe, arbResult };
+export {
+  Law, LawParameters, FunctorInstance, MonadInstance, functorLaws, monadLaws, maybeMonad, resultMonad, resultErrFunctor,
+  conversionLaws, maybeLaws, resultLaws, checkLaws,
+};
@@ -0,0 +1,188 @@
+/**
+ * This Source Code Form is subject to the terms of the Mozilla Public
+ * License, v. 2.0. If a copy of the MPL was not distributed with this
+ * file, You can obtain one at http://mozilla.org/MPL/2.0/.
+ */
+
+import * as fc from 'fast-check';
+import { deepEqual } from '../Equality';
+import { Maybe, Some } from '../Maybe';
+import { Result, Ok } from '../Result';
+import { arbMaybe, arbResult } from './arbitraries';
+
+/**
+ * `LawParameters` are the fast-check parameters accepted by {@link Law.check}.
+ */
+export interface LawParameters {
+  /** The number of generated cases. Defaults to fast-check's 100. */
+  numRuns?: number;
+  /** The seed of the generator, to replay a failure. */
+  seed?: number;
+  /** Whether a failure reports every shrinking step. */
+  verbose?: boolean;
+}
+
+/**
+ * `Law` is a named property. `check` runs it with fast-check and throws, with a
+ * counterexample, if it does not hold.
+ */
+export interface Law {
+  readonly name: string;
+  check(parameters?: LawParameters): void;
+}
+
+/**
+ * `FunctorInstance` describes a container with a `map` to {@link functorLaws}. The laws
+ * generate containers with `arbitrary` and functions returning values of `value`, and compare
+ * containers with `equals`, which defaults to {@link deepEqual}.
+ */
+export interface FunctorInstance<A,C> {
+  arbitrary: fc.Arbitrary<C>;
+  value: fc.Arbitrary<A>;
+  map(container: C, fn: (value: A) => A): C;
+  equals?(a: C, b: C): boolean;
+}
+
+/**
+ * `MonadInstance` describes a container with `of` and `flatMap` to {@link monadLaws}.
+ */
+export interface MonadInstance<A,C> extends FunctorInstance<A,C> {
+  of(value: A): C;
+  flatMap(container: C, fn: (value: A) => C): C;
+}
+
+const law = <Ts extends [unknown, ...unknown[]]>(name: string, property: fc.IProperty<Ts>): Law => {
+  return { name, check: (parameters = {}) => fc.assert(property, parameters) }
+}
+
+/**
+ * `functorLaws` returns the identity and composition laws of the `map` of the supplied
+ * instance. The name prefixes the names of the laws, so the laws of another mapping function,
+ * such as `mapErr`, can be told apart.
+ *
+ * Example:
+ * ```
+ * describe("Box", () => {
+ *   functorLaws({ arbitrary: fc.integer().map(box), value: fc.integer(), map: (b, fn) => b.map(fn) })
+ *     .forEach((law) => it(law.name, () => law.check()));
+ * });
+ * ```
+ */
+export const functorLaws = <A,C>(instance: FunctorInstance<A,C>, name = 'map'): Law[] => {
+  const { arbitrary, value, map, equals = deepEqual } = instance
+  return [
+    law(`${name} identity`, fc.property(arbitrary, (container) => {
+      return equals(map(container, (a) => a), container)
+    })),
+    law(`${name} composition`, fc.property(arbitrary, fc.func<[A], A>(value), fc.func<[A], A>(value), (container, f, g) => {
+      return equals(map(map(container, f), g), map(container, (a) => g(f(a))))
+    })),
+  ]
+}
+
+/**
+ * `monadLaws` returns the {@link functorLaws} of the supplied instance followed by the left
+ * identity, right identity and associativity laws of its `flatMap`.
+ */
+export const monadLaws = <A,C>(instance: MonadInstance<A,C>): Law[] => {
+  const { arbitrary, value, of, flatMap, equals = deepEqual } = instance
+  return [
+    ...functorLaws(instance),
+    law('flatMap left identity', fc.property(value, fc.func<[A], C>(arbitrary), (a, f) => {
+      return equals(flatMap(of(a), f), f(a))
+    })),
+    law('flatMap right identity', fc.property(arbitrary, (container) => {
+      return equals(flatMap(container, of), container)
+    })),
+    law('flatMap associativity', fc.property(arbitrary, fc.func<[A], C>(arbitrary), fc.func<[A], C>(arbitrary), (container, f, g) => {
+      return equals(flatMap(flatMap(container, f), g), flatMap(container, (a) => flatMap(f(a), g)))
+    })),
+  ]
+}
+
+/**
+ * `maybeMonad` is the {@link MonadInstance} of `Maybe`, holding values of the supplied
+ * arbitrary.
+ */
+export const maybeMonad = <A>(value: fc.Arbitrary<A>): MonadInstance<A, Maybe<A>> => {
+  return {
+    arbitrary: arbMaybe(value),
+    value,
+    of: (a) => new Some(a),
+    map: (maybe, fn) => maybe.map(fn),
+    flatMap: (maybe, fn) => maybe.flatMap(fn),
+  }
+}
+
+/**
+ * `resultMonad` is the {@link MonadInstance} of `Result` over its values.
+ */
+export const resultMonad = <A,E>(value: fc.Arbitrary<A>, error: fc.Arbitrary<E>): MonadInstance<A, Result<A,E>> => {
+  return {
+    arbitrary: arbResult(value, error),
+    value,
+    of: (a) => new Ok(a),
+    map: (result, fn) => result.map(fn),
+    flatMap: (result, fn) => result.flatMap(fn),
+  }
+}
+
+/**
+ * `resultErrFunctor` is the {@link FunctorInstance} of `Result` over its errors, mapping
+ * with `mapErr`.
+ */
+export const resultErrFunctor = <T,E>(value: fc.Arbitrary<T>, error: fc.Arbitrary<E>): FunctorInstance<E, Result<T,E>> => {
+  return {
+    arbitrary: arbResult(value, error),
+    value: error,
+    map: (result, fn) => result.mapErr(fn),
+  }
+}
+
+/**
+ * `conversionLaws` returns the laws of the conversions between `Maybe` and `Result`: turning a
+ * `Maybe` into a `Result` with `okOr` and back with `ok` gives the same `Maybe`, and `ok`
+ * followed by `okOr` gives back an `Ok` and drops the error of an `Err`.
+ */
+export const conversionLaws = <A,E>(value: fc.Arbitrary<A>, error: fc.Arbitrary<E>): Law[] => {
+  return [
+    law('okOr then ok round-trips a Maybe', fc.property(arbMaybe(value), error, (maybe, e) => {
+      return deepEqual(maybe.okOr(e).ok(), maybe)
+    })),
+    law('ok then okOr round-trips an Ok', fc.property(arbResult(value, error), error, (result, e) => {
+      return result.isOk() ? deepEqual(result.ok().okOr(e), result) : result.ok().isNone()
+    })),
+  ]
+}
+
+/**
+ * `maybeLaws` returns the {@link monadLaws} of `Maybe`.
+ *
+ * Example:
+ * ```
+ * maybeLaws(fc.integer()).forEach((law) => it(law.name, () => law.check()));
+ * ```
+ */
+export const maybeLaws = <A>(value: fc.Arbitrary<A>): Law[] => {
+  return monadLaws(maybeMonad(value))
+}
+
+/**
+ * `resultLaws` returns the {@link monadLaws} of `Result` followed by the `mapErr` laws.
+ */
+export const resultLaws = <A,E>(value: fc.Arbitrary<A>, error: fc.Arbitrary<E>): Law[] => {
+  return [...monadLaws(resultMonad(value, error)), ...functorLaws(resultErrFunctor(value, error), 'mapErr')]
+}
+
+/**
+ * `checkLaws` checks every law and throws at the first one that does not hold, naming it.
+ */
+export const checkLaws = (laws: readonly Law[], parameters?: LawParameters): void => {
+  laws.forEach((law) => {
+    try {
+      law.check(parameters)
+    } catch (error) {
+      throw new Error(`The law "${law.name}" does not hold: ${error.message}`)
+    }
+  })
+}
@@ -0,0 +1,111 @@
+import { ResultChain, MaybeChain } from '../src/Chain';
+import { Maybe, Some, None } from '../src/Maybe';
+import { Result, Ok, Err } from '../src/Result';
+
+const steps = 100000;
+
+describe("Result.chain", () => {
+  it("should run the steps like the eager methods", () => {
+    const chain = Result.chain(new Ok(1) as Result<number, string>)
+      .map((value) => value + 1)
+      .flatMap((value) => value > 1 ? new Ok(`${value}`) : new Err(0))
+      .mapErr((error) => `${error}`);
+    expect(chain.run()).toEqual(new Ok("2"));
+  });
+
+  it("should skip the value steps after an Err", () => {
+    const map = jest.fn((value: number) => value + 1);
+    const chain = Result.chain(new Err("a") as Result<number, string>)
+      .map(map)
+      .mapErr((error) => error.toUpperCase())
+      .orElse((error): Result<number, string> => error === "A" ? new Ok(0) : new Err(error))
+      .map((value) => value - 1);
+    expect(chain.run()).toEqual(new Ok(-1));
+    expect(map).not.toHaveBeenCalled();
+  });
+
+  it("should not run anything before run", () => {
+    const map = jest.fn((value: number) => value);
+    const chain = Result.chain(new Ok(1)).map(map);
+    expect(map).not.toHaveBeenCalled();
+    chain.run();
+    chain.run();
+    expect(map).toHaveBeenCalledTimes(2);
+  });
+
+  it("should keep chains extending the same chain apart", () => {
+    const base = Result.chain(new Ok(1)).map((value) => value + 1);
+    const doubled = base.map((value) => value * 2);
+    const negated = base.map((value) => -value);
+    expect(doubled.run()).toEqual(new Ok(4));
+    expect(negated.run()).toEqual(new Ok(-2));
+    expect(base.run()).toEqual(new Ok(2));
+  });
+
+  it("should run recursive chains in constant stack space", () => {
+    const countdown = (n: number): ResultChain<number, string> =>
+      n === 0 ? Result.chain(new Ok(0)) : Result.chain(new Ok(n)).flatMap((value) => countdown(value - 1));
+    expect(countdown(steps).run()).toEqual(new Ok(0));
+
+    const failAt = (n: number): ResultChain<number, string> =>
+      n === 0 ? Result.chain(new Err("done")) : Result.chain(new Ok(n - 1)).flatMap(failAt).map((value) => value + 1);
+    expect(failAt(steps).run()).toEqual(new Err("done"));
+  });
+
+  it("should create one container for any number of map steps", () => {
+    // Containers are frozen when they are created, so counting the calls of Object.freeze counts them.
+    const freeze = jest.spyOn(Object, "freeze");
+    try {
+      let chain: ResultChain<number, string> = Result.chain(new Ok(0));
+      for (let i = 0; i < 1000; i++) {
+        chain = chain.map((value) => value + 1).mapErr((error) => `${error}!`);
+      }
+      freeze.mockClear();
+      const fused = chain.run();
+      expect(freeze).toHaveBeenCalledTimes(1);
+
+      freeze.mockClear();
+      let eager: Result<number, string> = new Ok(0);
+      for (let i = 0; i < 1000; i++) {
+        eager = eager.map((value) => value + 1).mapErr((error) => `${error}!`);
+      }
+      expect(freeze).toHaveBeenCalledTimes(2001);
+      expect(fused).toEqual(eager);
+    } finally {
+      freeze.mockRestore();
+    }
+  });
+
+  it("should run long chains like the eager methods", () => {
+    const check = (value: number): Result<number, string> => value >= 0 ? new Ok(value) : new Err("negative");
+    let eager: Result<number, string> = new Ok(0);
+    let chain: ResultChain<number, string> = Result.chain(new Ok(0));
+    for (let i = 0; i < steps; i++) {
+      eager = eager.map((value) => value + 1).flatMap(check);
+      chain = chain.map((value) => value + 1).flatMap(check);
+    }
+    expect(chain.run()).toEqual(eager);
+    expect(chain.run()).toEqual(new Ok(steps));
+  });
+});
+
+describe("Maybe.chain", () => {
+  it("should run the steps like the eager methods", () => {
+    const chain = Maybe.chain(new Some(2))
+      .map((value) => value * 2)
+      .filter((value) => value > 3)
+      .flatMap((value) => value < 10 ? new Some(`${value}`) : new None());
+    expect(chain.run()).toEqual(new Some("4"));
+    expect(Maybe.chain(new Some(1)).filter((value) => value > 3).run()).toEqual(new None());
+  });
+
+  it("should fall back with orElse", () => {
+    expect(Maybe.chain(new None<number>()).map((value) => value + 1).orElse(() => new Some(0)).run()).toEqual(new Some(0));
+  });
+
+  it("should run recursive chains in constant stack space", () => {
+    const countdown = (n: number): MaybeChain<number> =>
+      n === 0 ? Maybe.chain(new Some(0)) : Maybe.chain(new Some(n)).flatMap((value) => countdown(value - 1));
+    expect(countdown(steps).run()).toEqual(new Some(0));
+  });
+});
@@ -0,0 +1,171 @@
+import { inspect } from 'util';
+import { show, setErrTracing, isErrTracing, setFreezing, isFreezing } from '../src/Debug';
+import { Maybe, Some, None } from '../src/Maybe';
+import { Result, Ok, Err } from '../src/Result';
+import { ResultAsync } from '../src/ResultAsync';
+import { TimeoutError } from '../src/Resilience';
+
+describe("show", () => {
+  it("should show primitives", () => {
+    expect(show("a")).toBe('"a"');
+    expect(show(1)).toBe("1");
+    expect(show(null)).toBe("null");
+    expect(show(undefined)).toBe("undefined");
+    expect(show(() => 1)).toBe("[Function]");
+  });
+
+  it("should show the contents of objects", () => {
+    expect(show({ id: 1, tags: ["a", "b"] })).toBe('{ id: 1, tags: ["a", "b"] }');
+    expect(show(new Map([["a", 1]]))).toBe('Map { "a" => 1 }');
+    expect(show(new Set())).toBe("Set {}");
+    expect(show(new TimeoutError(100))).toBe("TimeoutError: Timed out after 100ms");
+    expect(show(new Date(0))).toBe("1970-01-01T00:00:00.000Z");
+  });
+
+  it("should show circular references", () => {
+    const node: { next?: unknown } = {};
+    node.next = node;
+    expect(show(node)).toBe("{ next: [Circular] }");
+  });
+
+  it("should show objects without a prototype", () => {
+    const query = Object.assign(Object.create(null), { q: "picofp" });
+    expect(show(query)).toBe('{ q: "picofp" }');
+    expect(String(new Some(Object.create(null)))).toBe("Some({})");
+    expect(`${new Err(query)}`).toBe('Err({ q: "picofp" })');
+  });
+});
+
+describe("toString", () => {
+  it("should show the tag and the contents", () => {
+    expect(new Ok({ id: 1 }).toString()).toBe("Ok({ id: 1 })");
+    expect(new Err("not found").toString()).toBe('Err("not found")');
+    expect(new Some([1, 2]).toString()).toBe("Some([1, 2])");
+    expect(new None().toString()).toBe("None");
+  });
+
+  it("should be used by template strings", () => {
+    const result: Result<Maybe<number>, string> = new Ok(new Some(1));
+    expect(`${result}`).toBe("Ok(Some(1))");
+    expect(`${new Err(new None())}`).toBe("Err(None)");
+  });
+
+  it("should set Symbol.toStringTag", () => {
+    expect(Object.prototype.toString.call(new Ok(1))).toBe("[object Ok]");
+    expect(Object.prototype.toString.call(new Err(1))).toBe("[object Err]");
+    expect(Object.prototype.toString.call(new Some(1))).toBe("[object Some]");
+    expect(Object.prototype.toString.call(new None())).toBe("[object None]");
+  });
+});
+
+describe("inspect", () => {
+  it("should show containers like toString", () => {
+    expect(inspect(new Ok({ id: 1 }))).toBe("Ok({ id: 1 })");
+    expect(inspect(new Err("boom"))).toBe("Err('boom')");
+    expect(inspect(new None())).toBe("None");
+    expect(inspect([new Some(1), new None()])).toBe("[ Some(1), None ]");
+  });
+
+  it("should respect the depth", () => {
+    const nested = new Some(new Some(new Some(new Some(1))));
+    expect(inspect(nested, { depth: 1 })).toBe("Some(Some(Some(...)))");
+    expect(inspect({ result: new Ok({ user: { id: 1 } }) }, { depth: 1 })).toBe("{ result: Ok({ user: [Object] }) }");
+  });
+});
+
+describe("Err tracing", () => {
+  const fail = (): Result<number, string> => new Err("failed");
+
+  afterEach(() => setErrTracing(false));
+
+  it("should be off by default", () => {
+    expect(isErrTracing()).toBe(false);
+    expect(fail().isErr() && (fail() as Err<number, string>).site).toBeUndefined();
+  });
+
+  it("should record where an Err was created", () => {
+    setErrTracing(true);
+    const result = fail() as Err<number, string>;
+    expect(result.site).toMatch(/^at fail \(.*Debug\.test\.ts:\d+:\d+\)/);
+  });
+
+  it("should keep the site through a chain", () => {
+    setErrTracing(true);
+    const origin = fail() as Err<number, string>;
+    const result = new Ok(1)
+      .flatMap(() => origin)
+      .map((n) => n + 1)
+      .mapErr((error) => error.length)
+      .flatMap((n) => new Ok(n * 2)) as Err<number, number>;
+    expect(result.error).toBe(6);
+    expect(result.site).toBe(origin.site);
+  });
+
+  it("should take the site passed to the constructor", () => {
+    setErrTracing(true);
+    const origin = fail() as Err<number, string>;
+    setErrTracing(false);
+    expect(new Err("passed on", origin.site).site).toBe(origin.site);
+    expect((origin.mapErr((error) => error.length) as Err<number, number>).site).toBe(origin.site);
+    expect(new Err("fresh").site).toBeUndefined();
+  });
+
+  it("should keep the site through gen, chain and ResultAsync", async () => {
+    setErrTracing(true);
+    const origin = fail() as Err<number, string>;
+    const generated = Result.gen(function* () {
+      return yield* origin.bind();
+    }) as Err<number, string>;
+    const chained = Result.chain(new Ok(1)).flatMap(() => origin).mapErr((error) => error.length).run() as Err<number, number>;
+    const awaited = await ResultAsync.fromResult(origin).map((n) => n + 1) as Err<number, string>;
+    expect([generated.site, chained.site, awaited.site]).toEqual([origin.site, origin.site, origin.site]);
+  });
+
+  it("should leave the site out of comparisons and JSON", () => {
+    setErrTracing(true);
+    const traced = fail();
+    setErrTracing(false);
+    expect(traced).toEqual(new Err("failed"));
+    expect(traced.equals(new Err("failed"))).toBe(true);
+    expect(JSON.stringify(traced)).toBe('{"__tag":"Err","error":"failed"}');
+    expect(Object.keys(traced)).toEqual(["__tag", "error"]);
+  });
+});
+
+describe("freezing", () => {
+  afterEach(() => setFreezing(true));
+
+  it("should be on outside of production", () => {
+    expect(isFreezing()).toBe(true);
+  });
+
+  it("should be possible to turn off", () => {
+    setFreezing(false);
+    expect(Object.isFrozen(new Ok(1))).toBe(false);
+    expect(Object.isFrozen(new Some(1))).toBe(false);
+    expect(Object.isFrozen(new None())).toBe(true);
+  });
+
+  it("should leave the single None unfrozen in production", () => {
+    const nodeEnv = process.env.NODE_ENV;
+    let production: typeof import('../src/Maybe');
+    process.env.NODE_ENV = "production";
+    try {
+      jest.resetModules();
+      production = require('../src/Maybe');
+      expect(Object.isFrozen(new production.None())).toBe(false);
+      expect(Object.isFrozen(new production.Some(1))).toBe(false);
+    } finally {
+      process.env.NODE_ENV = nodeEnv;
+    }
+  });
+
+  it("should keep the site of a traced Err", () => {
+    setErrTracing(true);
+    const origin = new Err("a");
+    const mapped = origin.mapErr((error) => error.length) as Err<never, number>;
+    setErrTracing(false);
+    expect(Object.isFrozen(mapped)).toBe(true);
+    expect(mapped.site).toBe(origin.site);
+  });
+});
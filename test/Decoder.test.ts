@@ -0,0 +1,99 @@
+import { Decoder, DecodeError, Decoded } from '../src/Decoder';
+import { Maybe, Some, None } from '../src/Maybe';
+import { Ok, Err } from '../src/Result';
+
+describe("Decoder primitives", () => {
+  it("should decode matching values", () => {
+    expect(Decoder.string().decode("a")).toEqual(new Ok("a"));
+    expect(Decoder.number().decode(1)).toEqual(new Ok(1));
+    expect(Decoder.boolean().decode(false)).toEqual(new Ok(false));
+    expect(Decoder.literal("admin").decode("admin")).toEqual(new Ok("admin"));
+    expect(Decoder.literal(null).decode(null)).toEqual(new Ok(null));
+  });
+
+  it("should reject other values", () => {
+    const error = Decoder.string().decode(1).unwrapErr();
+    expect(error).toBeInstanceOf(DecodeError);
+    expect(error.path).toBe("$");
+    expect(error.expected).toBe("string");
+    expect(error.received).toBe(1);
+    expect(error.message).toBe("$: expected string, got number");
+    expect(Decoder.number().decode(NaN).isErr()).toBe(true);
+    expect(Decoder.boolean().decode("true").isErr()).toBe(true);
+    expect(Decoder.literal("admin").decode("user").unwrapErr().message).toBe('$: expected "admin", got string');
+  });
+});
+
+describe("Decoder combinators", () => {
+  const user = Decoder.object({
+    name: Decoder.string(),
+    roles: Decoder.array(Decoder.union(Decoder.literal("admin"), Decoder.literal("user"))),
+    age: Decoder.optional(Decoder.number()),
+    settings: Decoder.record(Decoder.boolean()),
+  });
+
+  it("should infer the decoded type", () => {
+    const decoded: Decoded<typeof user> = user.decode({ name: "Eric", roles: ["admin"], settings: {} }).unwrap();
+    const name: string = decoded.name;
+    const roles: ("admin" | "user")[] = decoded.roles;
+    const age: Maybe<number> = decoded.age;
+    expect([name, roles, age]).toEqual(["Eric", ["admin"], new None()]);
+  });
+
+  it("should decode nested values", () => {
+    const input = JSON.parse('{"name":"Eric","roles":["user"],"age":42,"settings":{"dark":true},"extra":1}');
+    expect(user.decode(input)).toEqual(new Ok({
+      name: "Eric",
+      roles: ["user"],
+      age: new Some(42),
+      settings: { dark: true },
+    }));
+  });
+
+  it("should decode missing and null optional fields to None", () => {
+    expect(user.decode({ name: "Eric", roles: [], settings: {} }).unwrap().age).toEqual(new None());
+    expect(user.decode({ name: "Eric", roles: [], age: null, settings: {} }).unwrap().age).toEqual(new None());
+  });
+
+  it("should locate errors with a JSON path", () => {
+    expect(user.decode({ name: 1 }).unwrapErr().path).toBe("$.name");
+    expect(user.decode({ name: "Eric", roles: ["user", "root"] }).unwrapErr().path).toBe("$.roles[1]");
+    expect(user.decode({ name: "Eric", roles: [], age: "old" }).unwrapErr().message).toBe("$.age: expected number, got string");
+    expect(user.decode({ name: "Eric", roles: [], settings: { "dark mode": 1 } }).unwrapErr().path).toBe('$.settings["dark mode"]');
+    expect(user.decode([]).unwrapErr().message).toBe("$: expected object, got array");
+  });
+
+  it("should keep __proto__ keys as properties", () => {
+    const names = Decoder.record(Decoder.string());
+    expect(names.decode(JSON.parse('{"__proto__": 5}')).unwrapErr().path).toBe("$.__proto__");
+    const decoded = names.decode(JSON.parse('{"__proto__": "a", "b": "c"}')).unwrap();
+    expect(Object.keys(decoded)).toEqual(["__proto__", "b"]);
+    expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+    const nested = Decoder.record(Decoder.object({ id: Decoder.number() })).decode(JSON.parse('{"__proto__": {"id": 1}}')).unwrap();
+    expect(Object.getPrototypeOf(nested)).toBe(Object.prototype);
+    expect(Object.getOwnPropertyDescriptor(nested, "__proto__")?.value).toEqual({ id: 1 });
+  });
+
+  it("should treat inherited properties as missing", () => {
+    const defined = new Decoder("defined", (value) => value === undefined ? new Err(new DecodeError("defined", value)) : new Ok(value));
+    const shape = Decoder.object({ constructor: defined, toString: Decoder.optional(defined) });
+    expect(shape.decode({}).unwrapErr().path).toBe("$.constructor");
+    expect(shape.decode({ constructor: 1 }).unwrap()).toEqual({ constructor: 1, toString: new None() });
+  });
+
+  it("should list every alternative when a union fails", () => {
+    const id = Decoder.union(Decoder.string(), Decoder.number());
+    expect(id.decode(1)).toEqual(new Ok(1));
+    expect(id.decode(true).unwrapErr().message).toBe("$: expected string | number, got boolean");
+  });
+
+  it("should refine and transform decoded values", () => {
+    const port = Decoder.number().refine((n) => n > 0 && n < 65536, "port");
+    expect(port.decode(80)).toEqual(new Ok(80));
+    expect(port.decode(-1).unwrapErr().message).toBe("$: expected port, got number");
+    expect(port.decode("80").unwrapErr().expected).toBe("number");
+
+    const length = Decoder.string().transform((text) => text.length);
+    expect(length.decode("abc")).toEqual(new Ok(3));
+  });
+});
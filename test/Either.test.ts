@@ -0,0 +1,59 @@
+import { Either, Left, Right, left, right } from '../src/Either';
+import { Some, None } from '../src/Maybe';
+import { Result, Ok, Err } from '../src/Result';
+
+const cached: Either<number, string> = left(1);
+const fresh: Either<number, string> = right("abc");
+
+describe("Either", () => {
+  it("isLeft and isRight should tell the sides apart", () => {
+    expect(cached.isLeft()).toBe(true);
+    expect(cached.isRight()).toBe(false);
+    expect(fresh.isRight()).toBe(true);
+    expect(fresh.isLeft()).toBe(false);
+  });
+
+  it("match and fold should call the branch of the side", () => {
+    const describe = (either: Either<number, string>) => either.match({
+      'Left': (value) => `left ${value}`,
+      'Right': (value) => `right ${value}`,
+    });
+    expect(describe(cached)).toBe("left 1");
+    expect(describe(fresh)).toBe("right abc");
+    expect(fresh.fold((value) => value, (value) => value.length)).toBe(3);
+  });
+
+  it("mapLeft and mapRight should only map their side", () => {
+    expect(cached.mapLeft((value) => value + 1)).toEqual(new Left(2));
+    expect(cached.mapRight((value) => value.length)).toEqual(new Left(1));
+    expect(fresh.mapLeft((value) => value + 1)).toEqual(new Right("abc"));
+    expect(fresh.mapRight((value) => value.length)).toEqual(new Right(3));
+  });
+
+  it("bimap should map either side", () => {
+    expect(cached.bimap((value) => value * 2, (value) => value.length)).toEqual(new Left(2));
+    expect(fresh.bimap((value) => value * 2, (value) => value.length)).toEqual(new Right(3));
+  });
+
+  it("swap should change the side", () => {
+    const swapped: Either<string, number> = cached.swap();
+    expect(swapped).toEqual(new Right(1));
+    expect(fresh.swap()).toEqual(new Left("abc"));
+  });
+
+  it("getLeft and getRight should return the value of their side", () => {
+    expect(cached.getLeft()).toEqual(new Some(1));
+    expect(cached.getRight()).toEqual(new None());
+    expect(fresh.getLeft()).toEqual(new None());
+    expect(fresh.getRight()).toEqual(new Some("abc"));
+  });
+
+  it("should convert to and from Result and Maybe", () => {
+    expect(cached.toResult()).toEqual(new Err(1));
+    expect(fresh.toResult()).toEqual(new Ok("abc"));
+    expect(Either.fromResult(new Ok(1) as Result<number, string>)).toEqual(new Right(1));
+    expect(Either.fromResult(new Err("a") as Result<number, string>)).toEqual(new Left("a"));
+    expect(Either.fromMaybe(new Some(1), "missing")).toEqual(new Right(1));
+    expect(Either.fromMaybe(new None(), "missing")).toEqual(new Left("missing"));
+  });
+});
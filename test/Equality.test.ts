@@ -0,0 +1,46 @@
+import { deepEqual, defaultCompare, strictEqual } from '../src/Equality';
+import { Some, None } from '../src/Maybe';
+import { Ok, Err } from '../src/Result';
+
+describe("deepEqual", () => {
+  it("should compare primitives", () => {
+    expect(deepEqual(1, 1)).toBe(true);
+    expect(deepEqual("a", "b")).toBe(false);
+    expect(deepEqual(NaN, NaN)).toBe(true);
+    expect(deepEqual(null, undefined)).toBe(false);
+  });
+
+  it("should compare objects and arrays structurally", () => {
+    expect(deepEqual({ id: 1, tags: ["a"] }, { id: 1, tags: ["a"] })).toBe(true);
+    expect(deepEqual({ id: 1 }, { id: 1, extra: true })).toBe(false);
+    expect(deepEqual([1, 2], [1, 2])).toBe(true);
+    expect(deepEqual([1, 2], { 0: 1, 1: 2 })).toBe(false);
+  });
+
+  it("should compare dates, maps and sets", () => {
+    expect(deepEqual(new Date(0), new Date(0))).toBe(true);
+    expect(deepEqual(new Map([["a", { id: 1 }]]), new Map([["a", { id: 1 }]]))).toBe(true);
+    expect(deepEqual(new Map([["a", 1]]), new Map([["a", 2]]))).toBe(false);
+    expect(deepEqual(new Set([1, 2]), new Set([2, 1]))).toBe(true);
+    expect(deepEqual(new Set([1]), new Set([2]))).toBe(false);
+  });
+
+  it("should compare nested containers", () => {
+    expect(deepEqual(new Some(new Ok({ id: 1 })), new Some(new Ok({ id: 1 })))).toBe(true);
+    expect(deepEqual(new Some(1), new Ok(1))).toBe(false);
+    expect(deepEqual(new None(), new None())).toBe(true);
+    expect(deepEqual(new Err("a"), new Err("b"))).toBe(false);
+  });
+});
+
+describe("strictEqual and defaultCompare", () => {
+  it("strictEqual should compare with ===", () => {
+    expect(strictEqual({}, {})).toBe(false);
+    expect(strictEqual("a", "a")).toBe(true);
+  });
+
+  it("defaultCompare should order values", () => {
+    expect([3, 1, 2].sort(defaultCompare)).toEqual([1, 2, 3]);
+    expect(defaultCompare("a", "a")).toBe(0);
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  filterMap, collectResults, takeWhileOk, partitionResults, findMap,
+  filterMapAsync, collectResultsAsync, takeWhileOkAsync, partitionResultsAsync, findMapAsync,
+} from '../src/Iterable';
+import { Maybe, Some, None } from '../src/Maybe';
+import { Result, Ok, Err } from '../src/Result';
+
+const parse = (text: string): Result<number, string> => {
+  const value = Number(text);
+  return isNaN(value) ? new Err(`${text} is not a number`) : new Ok(value);
+};
+
+const even = (value: number): Maybe<number> => value % 2 === 0 ? new Some(value) : new None();
+
+/**
+ * Yields the supplied values while recording how many were read and whether the iterator was
+ * closed, to check that the helpers are lazy.
+ */
+const tracked = <T>(values: T[]) => {
+  const state = { read: 0, closed: false };
+  const iterable = {
+    *[Symbol.iterator]() {
+      try {
+        for (const value of values) {
+          state.read++;
+          yield value;
+        }
+      } finally {
+        state.closed = true;
+      }
+    },
+  };
+  return { state, iterable };
+};
+
+async function* stream<T>(values: T[]): AsyncGenerator<T, void, undefined> {
+  for (const value of values) {
+    yield await Promise.resolve(value);
+  }
+}
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const values: T[] = [];
+  for await (const value of iterable) {
+    values.push(value);
+  }
+  return values;
+};
+
+describe("Maybe.iter", () => {
+  it("should yield zero or one value", () => {
+    expect([...new Some(1).iter()]).toEqual([1]);
+    expect([...new None().iter()]).toEqual([]);
+  });
+});
+
+describe("iterable helpers", () => {
+  it("filterMap should lazily keep the Some values", () => {
+    const { state, iterable } = tracked([1, 2, 3, 4]);
+    const evens = filterMap(iterable, even);
+    expect(state.read).toBe(0);
+    expect(evens.next()).toEqual({ done: false, value: 2 });
+    expect(state.read).toBe(2);
+    expect([...evens]).toEqual([4]);
+  });
+
+  it("collectResults should stop at the first Err", () => {
+    expect(collectResults(["1", "2"].map(parse))).toEqual(new Ok([1, 2]));
+    const { state, iterable } = tracked([new Ok(1), new Err("a"), new Err("b")]);
+    expect(collectResults(iterable)).toEqual(new Err("a"));
+    expect(state.read).toBe(2);
+    expect(state.closed).toBe(true);
+  });
+
+  it("takeWhileOk should yield values until the first Err", () => {
+    const { state, iterable } = tracked([new Ok(1), new Ok(2), new Err("a"), new Ok(3)]);
+    expect([...takeWhileOk(iterable)]).toEqual([1, 2]);
+    expect(state.read).toBe(3);
+    expect(state.closed).toBe(true);
+  });
+
+  it("partitionResults should split values and errors", () => {
+    const { iterable } = tracked(["1", "a", "2"].map(parse));
+    expect(partitionResults(iterable)).toEqual([[1, 2], ["a is not a number"]]);
+  });
+
+  it("findMap should stop at the first Some", () => {
+    const { state, iterable } = tracked([1, 3, 4, 6]);
+    expect(findMap(iterable, even)).toEqual(new Some(4));
+    expect(state.read).toBe(3);
+    expect(findMap([1, 3], even)).toEqual(new None());
+  });
+});
+
+describe("async iterable helpers", () => {
+  it("filterMapAsync should keep the Some values of async functions", async () => {
+    const evens = filterMapAsync(stream([1, 2, 3, 4]), async (value) => even(value));
+    expect(await collect(evens)).toEqual([2, 4]);
+    expect(await collect(filterMapAsync([1, 2], even))).toEqual([2]);
+  });
+
+  it("collectResultsAsync should stop at the first Err", async () => {
+    expect(await collectResultsAsync(stream(["1", "2"].map(parse)))).toEqual(new Ok([1, 2]));
+    const { state, iterable } = tracked([new Ok(1), new Err("a"), new Err("b")]);
+    expect(await collectResultsAsync(iterable)).toEqual(new Err("a"));
+    expect(state.read).toBe(2);
+    expect(state.closed).toBe(true);
+  });
+
+  it("takeWhileOkAsync should yield values until the first Err", async () => {
+    expect(await collect(takeWhileOkAsync(stream([new Ok(1), new Err("a"), new Ok(2)])))).toEqual([1]);
+  });
+
+  it("partitionResultsAsync should split values and errors", async () => {
+    expect(await partitionResultsAsync(stream(["1", "a"].map(parse)))).toEqual([[1], ["a is not a number"]]);
+  });
+
+  it("findMapAsync should stop at the first Some", async () => {
+    const { state, iterable } = tracked([1, 2, 3]);
+    expect(await findMapAsync(iterable, async (value) => even(value))).toEqual(new Some(2));
+    expect(state.read).toBe(2);
+    expect(await findMapAsync(stream([1, 3]), even)).toEqual(new None());
+  });
+});
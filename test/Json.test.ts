@@ -0,0 +1,89 @@
+import { reviver, revive } from '../src/Json';
+import { Maybe, Some, None } from '../src/Maybe';
+import { Result, Ok, Err } from '../src/Result';
+
+describe("toJSON", () => {
+  it("should serialize results and maybes as tagged objects", () => {
+    expect(JSON.stringify(new Ok(1))).toBe('{"__tag":"Ok","value":1}');
+    expect(JSON.stringify(new Err("e"))).toBe('{"__tag":"Err","error":"e"}');
+    expect(JSON.stringify(new Some(1))).toBe('{"__tag":"Some","value":1}');
+    expect(JSON.stringify(new None())).toBe('{"__tag":"None"}');
+  });
+
+  it("should serialize nested containers", () => {
+    expect(JSON.stringify({ user: new Ok(new Some("Eric")) }))
+      .toBe('{"user":{"__tag":"Ok","value":{"__tag":"Some","value":"Eric"}}}');
+  });
+
+  it("should leave out undefined values", () => {
+    expect(JSON.stringify(new Some(undefined))).toBe('{"__tag":"Some"}');
+  });
+});
+
+describe("reviver", () => {
+  it("should rebuild containers at any depth", () => {
+    const text = JSON.stringify({ users: [new Ok(new Some("Eric")), new Err("missing"), new Ok(new None())] });
+    const { users } = JSON.parse(text, reviver);
+    expect(users).toHaveLength(3);
+    expect(users[0]).toBeInstanceOf(Ok);
+    expect(users[0].value).toBeInstanceOf(Some);
+    expect(users[0].unwrap().unwrap()).toBe("Eric");
+    expect(users[1]).toBeInstanceOf(Err);
+    expect(users[1].unwrapErr()).toBe("missing");
+    expect(users[2].value).toBeInstanceOf(None);
+  });
+
+  it("should leave other values untouched", () => {
+    expect(JSON.parse('{"__tag":"Other","value":1}', reviver)).toEqual({ __tag: "Other", value: 1 });
+    expect(JSON.parse('[1,"a",null]', reviver)).toEqual([1, "a", null]);
+  });
+});
+
+describe("revive", () => {
+  it("should rebuild containers from plain objects", () => {
+    const plain = JSON.parse(JSON.stringify({ result: new Ok([new Some(1), new None()]) }));
+    const { result } = revive(plain) as { result: Result<Maybe<number>[], string> };
+    expect(result).toBeInstanceOf(Ok);
+    expect(result.unwrap()[0]).toBeInstanceOf(Some);
+    expect(result.unwrap()[1]).toBeInstanceOf(None);
+  });
+
+  it("should rebuild containers from structurally cloned values", () => {
+    const cloned = { ...new Err({ code: 404 }) };
+    const result = revive(cloned) as Result<number, { code: number }>;
+    expect(result).toBeInstanceOf(Err);
+    expect(result.unwrapErr()).toEqual({ code: 404 });
+  });
+
+  it("should not walk class instances", () => {
+    const date = new Date(0);
+    expect(revive(date)).toBe(date);
+  });
+});
+
+describe("fromJSON", () => {
+  it("should rebuild a result from text or an object", () => {
+    expect(Result.fromJSON<number, string>('{"__tag":"Ok","value":1}').unwrap()).toBe(1);
+    expect(Result.fromJSON<number, string>({ __tag: "Err", error: "e" }).unwrapErr()).toBe("e");
+    expect(Result.fromJSON<Maybe<number>, string>(JSON.stringify(new Ok(new Some(1)))).unwrap().unwrap()).toBe(1);
+  });
+
+  it("should rebuild a maybe from text or an object", () => {
+    expect(Maybe.fromJSON<number>('{"__tag":"Some","value":1}').unwrap()).toBe(1);
+    expect(Maybe.fromJSON<number>({ __tag: "None" }).isNone()).toBe(true);
+    expect(Maybe.fromJSON(JSON.stringify(new Some(undefined))).unwrap()).toBeUndefined();
+  });
+
+  it("should round trip", () => {
+    const result: Result<{ id: number }, string> = new Ok({ id: 1 });
+    expect(Result.fromJSON(JSON.stringify(result)).equals(result)).toBe(true);
+    const maybe: Maybe<string> = new Some("a");
+    expect(Maybe.fromJSON(JSON.stringify(maybe)).equals(maybe)).toBe(true);
+  });
+
+  it("should throw a TypeError for other values", () => {
+    expect(() => Result.fromJSON('{"__tag":"Some","value":1}')).toThrow(TypeError);
+    expect(() => Result.fromJSON('{"value":1}')).toThrow(TypeError);
+    expect(() => Maybe.fromJSON('{"__tag":"Ok","value":1}')).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,108 @@
+import { match, when } from '../src/Match';
+import { Maybe, Some, None } from '../src/Maybe';
+import { Result, Ok, Err } from '../src/Result';
+
+type FetchError = { type: 'NotFound' } | { type: 'Forbidden'; user: string };
+
+describe("Result.match and Maybe.match cases", () => {
+  it("should fall back to the wildcard for missing branches", () => {
+    const ok: Result<number, string> = new Ok(1);
+    const err: Result<number, string> = new Err("a");
+    expect(ok.match({ Ok: (value) => value + 1, _: () => 0 })).toBe(2);
+    expect(err.match({ Ok: (value) => value + 1, _: () => 0 })).toBe(0);
+    expect(new None<number>().match({ Some: (value) => value, _: () => -1 })).toBe(-1);
+  });
+
+  it("should pass the container to the wildcard", () => {
+    const err: Result<number, string> = new Err("a");
+    expect(err.match({ Ok: () => "ok", _: (result) => result.unwrapErr() })).toBe("a");
+  });
+
+  it("should only take guarded branches when the guard accepts the value", () => {
+    const sign = (result: Result<number, string>): string => result.match({
+      Ok: [when((value) => value > 0), () => "positive"],
+      _: () => "other",
+    });
+    expect(sign(new Ok(1))).toBe("positive");
+    expect(sign(new Ok(-1))).toBe("other");
+    expect(sign(new Err("a"))).toBe("other");
+    expect(new Some("abc").match({
+      Some: [when((value) => value.length > 5), (value) => value],
+      _: () => "short",
+    })).toBe("short");
+  });
+
+  it("should match nested containers", () => {
+    const describe = (result: Result<Maybe<number>, string>): string => result.match({
+      Ok: { Some: (value) => `some ${value}`, None: () => "none" },
+      Err: (error) => `error ${error}`,
+    });
+    expect(describe(new Ok(new Some(1)))).toBe("some 1");
+    expect(describe(new Ok(new None()))).toBe("none");
+    expect(describe(new Err("a"))).toBe("error a");
+
+    const maybe: Maybe<Result<number, string>> = new Some(new Err("a"));
+    expect(maybe.match({ Some: { Ok: (value) => value, _: () => 0 }, None: () => -1 })).toBe(0);
+  });
+
+  it("should keep the two branch form", () => {
+    const result: Result<number, string> = new Ok(1);
+    const value: number | string = result.match({ Ok: (value) => value, Err: (error) => error });
+    expect(value).toBe(1);
+    // @ts-expect-error a branch is missing without a wildcard
+    expect(() => result.match({ Ok: (value) => value })).not.toThrow();
+  });
+});
+
+describe("match", () => {
+  const status = (result: Result<Maybe<string>, FetchError>): number => match(result)
+    .with({ __tag: 'Ok', value: { __tag: 'Some' } }, () => 200)
+    .with({ __tag: 'Ok', value: { __tag: 'None' } }, () => 204)
+    .with({ __tag: 'Err', error: { type: 'NotFound' } }, () => 404)
+    .with({ __tag: 'Err', error: { type: 'Forbidden' } }, () => 403)
+    .exhaustive();
+
+  it("should take the first matching case", () => {
+    expect(status(new Ok(new Some("Eric")))).toBe(200);
+    expect(status(new Ok(new None()))).toBe(204);
+    expect(status(new Err({ type: 'NotFound' }))).toBe(404);
+    expect(status(new Err({ type: 'Forbidden', user: "Eric" }))).toBe(403);
+  });
+
+  it("should narrow the value passed to the handler", () => {
+    const result = new Err({ type: 'Forbidden', user: "Eric" }) as Result<number, FetchError>;
+    const message = match(result)
+      .with({ __tag: 'Err', error: { type: 'Forbidden' } }, (err) => `forbidden for ${err.error.user}`)
+      .with({ __tag: 'Err' }, () => "not found")
+      .with({ __tag: 'Ok' }, (ok) => `${ok.value + 1}`)
+      .exhaustive();
+    expect(message).toBe("forbidden for Eric");
+  });
+
+  it("should be a type error to leave out a case", () => {
+    const result = new Err({ type: 'Forbidden', user: "Eric" }) as Result<number, FetchError>;
+    const builder = match(result)
+      .with({ __tag: 'Ok' }, () => 200)
+      .with({ __tag: 'Err', error: { type: 'NotFound' } }, () => 404);
+    // @ts-expect-error Forbidden is not handled
+    expect(() => builder.exhaustive()).toThrow("No pattern matched the value");
+  });
+
+  it("should not count guarded cases as handled", () => {
+    const result = new Ok(-1) as Result<number, string>;
+    const sign = match(result)
+      .with({ __tag: 'Ok' }, when((ok) => ok.value > 0), () => "positive")
+      .with({ __tag: 'Ok' }, () => "not positive");
+    expect(sign.otherwise(() => "error")).toBe("not positive");
+    // @ts-expect-error Err is not handled
+    sign.exhaustive();
+  });
+
+  it("should match plain values", () => {
+    const size = (n: number) => match(n)
+      .with(0, () => "none")
+      .with(1, () => "one")
+      .otherwise(() => "many");
+    expect([size(0), size(1), size(2)]).toEqual(["none", "one", "many"]);
+  });
+});
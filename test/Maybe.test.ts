@@ -1,4 +1,8 @@
 import { Maybe, none, None, some, Some } from '../src/Maybe';
+import { someAsync, noneAsync } from '../src/MaybeAsync';
+import { UnwrapError, UnwrapNoneError } from '../src/UnwrapError';
+import { Result, Ok, Err } from '../src/Result';
+import { deepEqual } from '../src/Equality';
 
 describe("Some functions", () => {
   it("isSome should return true", () => {
@@ -135,3 +139,329 @@ describe("None functions", () => {
     expect(n.isNone()).toBe(true)
   });
 })
+
+describe("Maybe.gen", () => {
+  const half = (value: number): Maybe<number> =>
+    value % 2 === 0 ? new Some(value / 2) : new None();
+
+  it("should return Some with the returned value when every step is Some", () => {
+    const res = Maybe.gen(function* () {
+      const a = yield* half(8).bind();
+      const b = yield* half(a).bind();
+      return a + b;
+    });
+    expect(res.isSome()).toBe(true);
+    expect(res.unwrap()).toBe(6);
+  });
+
+  it("should short circuit on the first None", () => {
+    const after = jest.fn();
+    const res = Maybe.gen(function* () {
+      const a = yield* half(3).bind();
+      after();
+      return a;
+    });
+    expect(after).not.toHaveBeenCalled();
+    expect(res.isNone()).toBe(true);
+  });
+
+  it("should leave maybes comparable with toEqual", () => {
+    expect(new Some(1)).not.toEqual(new Some(2));
+    expect(new Some(1)).not.toEqual(new None());
+    expect(new None()).toEqual(new None());
+  });
+
+  it("genAsync should accept both Maybe and MaybeAsync values", async () => {
+    const res = await Maybe.genAsync(async function* () {
+      const a = yield* someAsync(4).bind();
+      const b = yield* half(a).bind();
+      return a + b;
+    });
+    expect(res.unwrap()).toBe(6);
+  });
+
+  it("genAsync should short circuit on the first None", async () => {
+    const res = await Maybe.genAsync(async function* () {
+      const a = yield* noneAsync<number>().bind();
+      return yield* half(a).bind();
+    });
+    expect(res.isNone()).toBe(true);
+  });
+});
+
+describe("Maybe collection functions", () => {
+  it("all should collect the values of a tuple of Some values", () => {
+    const a: Maybe<number> = new Some(1);
+    const b: Maybe<string> = new Some("foo");
+    const res: Maybe<[number, string]> = Maybe.all([a, b]);
+    expect(res.unwrap()).toEqual([1, "foo"]);
+  });
+
+  it("all should return None when any value is None", () => {
+    expect(Maybe.all([new Some(1), new None()]).isNone()).toBe(true);
+  });
+
+  it("all should collect the values of a record of Some values", () => {
+    const res: Maybe<{ a: number, b: string }> = Maybe.all({ a: new Some(1), b: new Some("foo") });
+    expect(res.unwrap()).toEqual({ a: 1, b: "foo" });
+  });
+
+  it("values should return the values of every Some", () => {
+    const maybes: Maybe<number>[] = [new Some(1), new None(), new Some(3)];
+    const values: number[] = Maybe.values(maybes);
+    expect(values).toEqual([1, 3]);
+  });
+});
+
+describe("Maybe constructors", () => {
+  it("fromNullable should return Some for a value", () => {
+    expect(Maybe.fromNullable("foo").unwrap()).toBe("foo");
+    expect(Maybe.fromNullable(0).isSome()).toBe(true);
+  });
+
+  it("fromNullable should return None for null and undefined", () => {
+    expect(Maybe.fromNullable(null).isNone()).toBe(true);
+    expect(Maybe.fromNullable(undefined).isNone()).toBe(true);
+  });
+
+  it("fromPredicate should return Some when the predicate holds", () => {
+    expect(Maybe.fromPredicate(10, (value) => value > 5).unwrap()).toBe(10);
+    expect(Maybe.fromPredicate(1, (value) => value > 5).isNone()).toBe(true);
+  });
+
+  it("fromPredicate should narrow the type with a type guard", () => {
+    const value: string | number = "foo";
+    const isString = (value: unknown): value is string => typeof value === "string";
+    const maybe: Maybe<string> = Maybe.fromPredicate(value, isString);
+    expect(maybe.unwrap()).toBe("foo");
+  });
+
+  it("fromFalsy should return None for falsy values", () => {
+    expect(Maybe.fromFalsy("foo").unwrap()).toBe("foo");
+    expect(Maybe.fromFalsy("").isNone()).toBe(true);
+    expect(Maybe.fromFalsy(0).isNone()).toBe(true);
+    expect(Maybe.fromFalsy(false).isNone()).toBe(true);
+  });
+});
+
+describe("Maybe unwrap errors", () => {
+  it("unwrap on None should throw an UnwrapNoneError", () => {
+    const none: Maybe<number> = new None();
+    expect(() => none.unwrap()).toThrowError(UnwrapNoneError);
+    expect(() => none.unwrap()).toThrowError(UnwrapError);
+  });
+
+  it("expect should return the value of a Some", () => {
+    expect(new Some(1).expect("should be some")).toBe(1);
+  });
+
+  it("expect on None should throw an UnwrapNoneError with the supplied message", () => {
+    const none: Maybe<number> = new None();
+    expect(() => none.expect("should be some")).toThrowError(new UnwrapNoneError("should be some"));
+  });
+});
+
+describe("Maybe combinators", () => {
+  const someValue: Maybe<number> = new Some(2);
+  const noneValue: Maybe<number> = new None();
+
+  it("filter should keep values satisfying the predicate", () => {
+    expect(someValue.filter((value) => value > 1).unwrap()).toBe(2);
+    expect(someValue.filter((value) => value > 2).isNone()).toBe(true);
+    expect(noneValue.filter(() => true).isNone()).toBe(true);
+  });
+
+  it("filter should narrow the type with a type guard", () => {
+    const input: Maybe<string | number> = new Some("foo");
+    const isString = (value: unknown): value is string => typeof value === "string";
+    const filtered: Maybe<string> = input.filter(isString);
+    expect(filtered.unwrap().length).toBe(3);
+  });
+
+  it("or and orElse should fall back for None", () => {
+    expect(someValue.or(new Some(3)).unwrap()).toBe(2);
+    expect(noneValue.or(new Some(3)).unwrap()).toBe(3);
+    expect(someValue.orElse(() => new Some(3)).unwrap()).toBe(2);
+    expect(noneValue.orElse(() => new Some(3)).unwrap()).toBe(3);
+  });
+
+  it("xor should return the Some when exactly one is Some", () => {
+    expect(someValue.xor(noneValue).unwrap()).toBe(2);
+    expect(noneValue.xor(someValue).unwrap()).toBe(2);
+    expect(someValue.xor(new Some(3)).isNone()).toBe(true);
+    expect(noneValue.xor(noneValue).isNone()).toBe(true);
+  });
+
+  it("zip and zipWith should combine two Some values", () => {
+    const zipped: Maybe<[number, string]> = someValue.zip(new Some("foo"));
+    expect(zipped.unwrap()).toEqual([2, "foo"]);
+    expect(someValue.zip(noneValue).isNone()).toBe(true);
+    expect(someValue.zipWith(new Some(3), (a, b) => a + b).unwrap()).toBe(5);
+    expect(noneValue.zipWith(someValue, (a, b) => a + b).isNone()).toBe(true);
+  });
+
+  it("unzip should split a Maybe of a tuple", () => {
+    const [a, b] = someValue.zip(new Some("foo")).unzip();
+    expect(a.unwrap()).toBe(2);
+    expect(b.unwrap()).toBe("foo");
+    const [c, d] = new None<[number, string]>().unzip();
+    expect(c.isNone() && d.isNone()).toBe(true);
+  });
+
+  it("okOr and okOrElse should convert to a Result", () => {
+    expect(someValue.okOr("missing").unwrap()).toBe(2);
+    expect(noneValue.okOr("missing").unwrapErr()).toBe("missing");
+    expect(noneValue.okOrElse(() => "missing").unwrapErr()).toBe("missing");
+  });
+
+  it("unwrapOrElse should compute the default for None", () => {
+    expect(someValue.unwrapOrElse(() => 3)).toBe(2);
+    expect(noneValue.unwrapOrElse(() => 3)).toBe(3);
+  });
+
+  it("flatten should remove one level of nesting", () => {
+    expect(new Some(new Some(1)).flatten().unwrap()).toBe(1);
+    expect(new Some(new None()).flatten().isNone()).toBe(true);
+    expect(new None<Maybe<number>>().flatten().isNone()).toBe(true);
+  });
+
+  it("transpose should turn a Maybe of a Result into a Result of a Maybe", () => {
+    const ok: Maybe<Result<number, string>> = new Some(new Ok(1));
+    const error: Maybe<Result<number, string>> = new Some(new Err("error"));
+    const empty: Maybe<Result<number, string>> = new None();
+    expect(ok.transpose().unwrap().unwrap()).toBe(1);
+    expect(error.transpose().unwrapErr()).toBe("error");
+    expect(empty.transpose().unwrap().isNone()).toBe(true);
+  });
+
+  it("tap should call the function and return the maybe unchanged", () => {
+    const fn = jest.fn();
+    expect(someValue.tap(fn)).toBe(someValue);
+    expect(noneValue.tap(fn)).toBe(noneValue);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn).toHaveBeenCalledWith(2);
+  });
+
+  it("toNullable and toUndefined should return the value or an empty value", () => {
+    expect(someValue.toNullable()).toBe(2);
+    expect(noneValue.toNullable()).toBeNull();
+    expect(someValue.toUndefined()).toBe(2);
+    expect(noneValue.toUndefined()).toBeUndefined();
+  });
+
+  it("isSomeAnd should check the predicate", () => {
+    expect(someValue.isSomeAnd((value) => value > 1)).toBe(true);
+    expect(someValue.isSomeAnd((value) => value > 2)).toBe(false);
+    expect(noneValue.isSomeAnd(() => true)).toBe(false);
+  });
+});
+
+describe("Maybe equality and ordering", () => {
+  it("equals should compare values structurally", () => {
+    expect(new Some({ id: 1 }).equals(new Some({ id: 1 }))).toBe(true);
+    expect(new Some({ id: 1 }).equals(new Some({ id: 2 }))).toBe(false);
+    expect(new Some(1).equals(new None())).toBe(false);
+    expect(new None().equals(new None())).toBe(true);
+  });
+
+  it("equals should use the supplied comparison", () => {
+    const byId = (a: { id: number }, b: { id: number }) => a.id === b.id;
+    expect(new Some({ id: 1, name: "a" }).equals(new Some({ id: 1, name: "b" }), byId)).toBe(true);
+  });
+
+  it("contains should accept a comparison", () => {
+    expect(new Some({ id: 1 }).contains({ id: 1 })).toBe(false);
+    expect(new Some({ id: 1 }).contains({ id: 1 }, deepEqual)).toBe(true);
+    expect(new None<{ id: number }>().contains({ id: 1 }, deepEqual)).toBe(false);
+  });
+
+  it("compare should order None before Some", () => {
+    expect(new None<number>().compare(new Some(1))).toBeLessThan(0);
+    expect(new Some(1).compare(new None())).toBeGreaterThan(0);
+    expect(new Some(2).compare(new Some(1))).toBeGreaterThan(0);
+    expect(new None().compare(new None())).toBe(0);
+  });
+
+  it("toEqual should compare maybes structurally", () => {
+    expect(new Some({ id: 1 })).toEqual(new Some({ id: 1 }));
+    expect(new Some(1)).not.toEqual(new Some(2));
+    expect(new Some(new Some(1))).not.toEqual(new Some(new Some(2)));
+    expect(new None()).toEqual(new None());
+    expect(new Some(undefined)).not.toEqual(new None());
+  });
+
+  it("comparator should sort maybes", () => {
+    const maybes: Maybe<number>[] = [new Some(2), new None(), new Some(1)];
+    expect(maybes.sort(Maybe.comparator())).toEqual([new None(), new Some(1), new Some(2)]);
+    expect(maybes.sort(Maybe.comparator((a, b) => b - a))).toEqual([new None(), new Some(2), new Some(1)]);
+  });
+});
+
+describe("Maybe.isMaybe", () => {
+  let copy: typeof import('../src/Maybe');
+  beforeAll(() => {
+    jest.resetModules();
+    copy = require('../src/Maybe');
+  });
+
+  it("should tell maybes from other values", () => {
+    expect(Maybe.isMaybe(new Some(1))).toBe(true);
+    expect(Maybe.isMaybe(new None())).toBe(true);
+    expect(Maybe.isMaybe(new Ok(1))).toBe(false);
+    expect(Maybe.isMaybe({ __tag: "None" })).toBe(false);
+    expect(Maybe.isMaybe(undefined)).toBe(false);
+  });
+
+  it("should recognise maybes from another copy of the library", () => {
+    const other = new copy.None();
+    expect(other).not.toBeInstanceOf(None);
+    expect(Maybe.isMaybe(other)).toBe(true);
+    expect(Maybe.gen(function* () {
+      const a = yield* new copy.Some(1).bind();
+      const b: number = yield* new copy.None<number>().bind();
+      return a + b;
+    }).isNone()).toBe(true);
+  });
+
+  it("should narrow on __tag", () => {
+    const orZero = (maybe: Maybe<number>): number => {
+      switch (maybe.__tag) {
+        case 'Some':
+          return maybe.value;
+        case 'None':
+          return 0;
+      }
+    };
+    expect(orZero(new Some(1))).toBe(1);
+    expect(orZero(new None())).toBe(0);
+  });
+});
+
+describe("Maybe immutability", () => {
+  class Animal { name = "animal" }
+  class Dog extends Animal { bark = () => "woof" }
+
+  it("should share a single frozen None", () => {
+    expect(new None()).toBe(new None());
+    expect(none()).toBe(new None());
+    expect(new Some(1).filter(() => false)).toBe(none());
+    expect(Object.isFrozen(none())).toBe(true);
+  });
+
+  it("should freeze new instances of Some", () => {
+    const maybe = new Some([1]);
+    expect(Object.isFrozen(maybe)).toBe(true);
+    // @ts-expect-error value is readonly
+    expect(() => { maybe.value = [2]; }).toThrow(TypeError);
+    expect(Object.isFrozen(maybe.value)).toBe(false);
+  });
+
+  it("should be covariant", () => {
+    const dog: Maybe<Dog> = new Some(new Dog());
+    const animal: Maybe<Animal> = dog;
+    const nothing: Maybe<number> = none();
+    // @ts-expect-error an animal is not a dog
+    const narrowed: Maybe<Dog> = animal;
+    expect([animal, nothing, narrowed]).toHaveLength(3);
+  });
+});
@@ -0,0 +1,95 @@
+import { Maybe, Some, None } from '../src/Maybe';
+import { MaybeAsync, someAsync, noneAsync } from '../src/MaybeAsync';
+
+describe("MaybeAsync constructors", () => {
+  it("fromPromise should resolve to Some", async () => {
+    const some = await MaybeAsync.fromPromise(Promise.resolve(10));
+    expect(some).toBeInstanceOf(Some);
+    expect(some.unwrap()).toBe(10);
+  });
+
+  it("toAsync should lift a synchronous Maybe", async () => {
+    const some = await new Some(2).toAsync().map((value) => value * 2);
+    expect(some.unwrap()).toBe(4);
+  });
+});
+
+describe("MaybeAsync on Some", () => {
+  it("map should accept synchronous and asynchronous functions", async () => {
+    const some = await someAsync(2)
+      .map((value) => value * 2)
+      .map(async (value) => value + 1);
+    expect(some).toBeInstanceOf(Some);
+    expect(some.unwrap()).toBe(5);
+  });
+
+  it("mapOr should map the contained value", async () => {
+    const some = await someAsync("string").mapOr(async (value) => value.length, 10);
+    expect(some.unwrap()).toBe(6);
+  });
+
+  it("flatMap should allow mixing Maybe, MaybeAsync and promises of Maybe", async () => {
+    const some = await someAsync("10")
+      .flatMap((value): Maybe<number> => new Some(parseInt(value)))
+      .flatMap((value) => someAsync(value * 2))
+      .flatMap(async (value) => new Some(value + 1));
+    expect(some.unwrap()).toBe(21);
+  });
+
+  it("match should resolve to the Some branch", async () => {
+    const match = await someAsync(4).match({
+      'Some': async (value) => value ** 2,
+      'None': () => 10,
+    });
+    expect(match).toBe(16);
+  });
+
+  it("unwrapOr should resolve to the contained value", async () => {
+    expect(await someAsync(42).unwrapOr(117)).toBe(42);
+  });
+
+  it("okOr should resolve to Ok", async () => {
+    const res = await someAsync(42).okOr("not found");
+    expect(res.isOk()).toBe(true);
+    expect(res.unwrap()).toBe(42);
+  });
+});
+
+describe("MaybeAsync on None", () => {
+  it("map should pass through the None", async () => {
+    const fn = jest.fn((value: number) => value * 2);
+    const none = await noneAsync<number>().map(fn);
+    expect(none).toBeInstanceOf(None);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("mapOr should resolve to the default value", async () => {
+    const none = await noneAsync<string>().mapOr(async (value) => value.length, 10);
+    expect(none.unwrap()).toBe(10);
+  });
+
+  it("flatMap should short circuit", async () => {
+    const fn = jest.fn((value: number) => someAsync(value));
+    const none = await noneAsync<number>().flatMap(fn);
+    expect(none.isNone()).toBe(true);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("match should resolve to the None branch", async () => {
+    const match = await noneAsync<number>().match({
+      'Some': (value) => value ** 2,
+      'None': async () => 10,
+    });
+    expect(match).toBe(10);
+  });
+
+  it("unwrapOr should resolve to the default value", async () => {
+    expect(await noneAsync<string>().unwrapOr("default")).toBe("default");
+  });
+
+  it("okOr should resolve to Err with the supplied error", async () => {
+    const res = await noneAsync<number>().okOr("not found");
+    expect(res.isErr()).toBe(true);
+    if (res.isErr()) expect(res.error).toBe("not found");
+  });
+});
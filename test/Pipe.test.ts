@@ -0,0 +1,24 @@
+import { pipe, flow } from '../src/Pipe';
+
+describe("pipe", () => {
+  it("should return the value without functions", () => {
+    expect(pipe(1)).toBe(1);
+  });
+
+  it("should apply the functions from left to right", () => {
+    expect(pipe(1, (n) => n + 1, (n) => n * 10, (n) => `${n}`)).toBe("20");
+  });
+
+  it("should infer the types of long chains", () => {
+    const inc = (n: number) => n + 1;
+    const result: number = pipe(0, inc, inc, inc, inc, inc, inc, inc, inc, inc, inc, inc, inc, inc, inc, inc, inc, inc, inc, inc, inc);
+    expect(result).toBe(20);
+  });
+});
+
+describe("flow", () => {
+  it("should compose the functions from left to right", () => {
+    const format = flow((a: number, b: number) => a + b, (n) => n * 2, (n) => `${n}`);
+    expect(format(1, 2)).toBe("6");
+  });
+});
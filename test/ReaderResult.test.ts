@@ -0,0 +1,118 @@
+import { ReaderResult } from '../src/ReaderResult';
+import { Result, Ok, Err } from '../src/Result';
+
+interface Logger { messages: string[] }
+interface Config { limit: number }
+
+const log = (message: string): ReaderResult<{ logger: Logger }, void, never> => {
+  return ReaderResult.asks(({ logger }: { logger: Logger }) => {
+    logger.messages.push(message);
+  });
+};
+
+const parse = (text: string): Result<number, string> => {
+  const n = Number(text);
+  return isNaN(n) ? new Err(`${text} is not a number`) : new Ok(n);
+};
+
+describe("ReaderResult", () => {
+  it("should create constant computations", () => {
+    expect(ReaderResult.ok(1).run({})).toEqual(new Ok(1));
+    expect(ReaderResult.err("a").run({})).toEqual(new Err("a"));
+    expect(ReaderResult.fromResult(new Ok(2)).run(undefined)).toEqual(new Ok(2));
+  });
+
+  it("should read the environment with ask and asks", () => {
+    expect(ReaderResult.ask<Config>().run({ limit: 3 })).toEqual(new Ok({ limit: 3 }));
+    expect(ReaderResult.asks((config: Config) => config.limit * 2).run({ limit: 3 })).toEqual(new Ok(6));
+  });
+
+  it("should map values and errors", () => {
+    const limit = ReaderResult.asks((config: Config) => config.limit);
+    expect(limit.map((n) => n + 1).run({ limit: 1 })).toEqual(new Ok(2));
+    expect(ReaderResult.err<string, number>("a").map((n) => n + 1).mapErr((e) => e.length).run({})).toEqual(new Err(1));
+  });
+
+  it("should require the intersection of the environments of the steps", () => {
+    const logger: Logger = { messages: [] };
+    const program = ReaderResult.ask<Config>()
+      .flatMap(({ limit }) => log(`limit is ${limit}`).map(() => limit))
+      .flatMap((limit) => parse("10").map((n) => Math.min(n, limit)));
+    const result: Result<number, string> = program.run({ logger, limit: 5 });
+    expect(result).toEqual(new Ok(5));
+    expect(logger.messages).toEqual(["limit is 5"]);
+    // @ts-expect-error the logger is missing from the environment
+    expect(() => program.run({ limit: 5 })).toThrow(TypeError);
+  });
+
+  it("should stop at the first Err", () => {
+    const logger: Logger = { messages: [] };
+    const program = ReaderResult.fromResult(parse("a")).flatMap(() => log("parsed"));
+    expect(program.run({ logger })).toEqual(new Err("a is not a number"));
+    expect(logger.messages).toEqual([]);
+  });
+
+  it("should recover with orElse", () => {
+    const fallback = ReaderResult.fromResult(parse("a")).orElse(() => ReaderResult.asks((config: Config) => config.limit));
+    expect(fallback.run({ limit: 7 })).toEqual(new Ok(7));
+    expect(ReaderResult.ok(1).orElse(() => new Err("unused")).run({})).toEqual(new Ok(1));
+  });
+
+  it("should run in a local environment", () => {
+    const program = ReaderResult.asks((config: Config) => config.limit).local((app: { config: Config }) => app.config);
+    expect(program.run({ config: { limit: 4 } })).toEqual(new Ok(4));
+  });
+
+  it("should provide part of the environment", () => {
+    const logger: Logger = { messages: [] };
+    const program = ReaderResult.ask<Config>().flatMap(({ limit }) => log(`${limit}`)).provide({ logger });
+    expect(program.run({ limit: 2 })).toEqual(new Ok(undefined));
+    expect(logger.messages).toEqual(["2"]);
+  });
+
+  it("should keep the getters and methods of a class environment when providing", () => {
+    class App {
+      constructor(private readonly settings: Config) {}
+      get limit(): number {
+        return this.settings.limit;
+      }
+      double(n: number): number {
+        return n * 2;
+      }
+    }
+    const logger: Logger = { messages: [] };
+    const program = ReaderResult.ask<App & { logger: Logger }>()
+      .flatMap((app) => log(`${app.double(app.limit)}`))
+      .provide({ logger });
+    expect(program.run(new App({ limit: 2 }))).toEqual(new Ok(undefined));
+    expect(logger.messages).toEqual(["4"]);
+  });
+
+  it("should keep every key of the environment when providing", () => {
+    const logger: Logger = { messages: [] };
+    const keys = ReaderResult.asks((env: Config & { logger: Logger }) => Object.keys(env).sort()).provide({ logger });
+    expect(keys.run({ limit: 2 })).toEqual(new Ok(["limit", "logger"]));
+    expect(keys.local((app: { config: Config }) => ({ ...app.config })).run({ config: { limit: 2 } })).toEqual(new Ok(["limit", "logger"]));
+  });
+
+  it("should run without an environment once all of it is provided", () => {
+    const logger: Logger = { messages: [] };
+    const program = log("hello").provide({ logger });
+    expect(program.run(undefined as unknown as Record<string, never>)).toEqual(new Ok(undefined));
+    expect(logger.messages).toEqual(["hello"]);
+  });
+
+  it("should convert to a ReaderResultAsync", async () => {
+    const program = ReaderResult.asks((config: Config) => config.limit).toAsync().map(async (n) => n * 3);
+    expect(await program.run({ limit: 2 })).toEqual(new Ok(6));
+  });
+
+  it("should not run before run is called", () => {
+    const fn = jest.fn(() => 1);
+    const program = ReaderResult.asks(fn).map((n) => n + 1);
+    expect(fn).not.toHaveBeenCalled();
+    expect(program.run({})).toEqual(new Ok(2));
+    expect(program.run({})).toEqual(new Ok(2));
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
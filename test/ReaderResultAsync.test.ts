@@ -0,0 +1,69 @@
+import { ReaderResult } from '../src/ReaderResult';
+import { ReaderResultAsync } from '../src/ReaderResultAsync';
+import { Result, Ok, Err } from '../src/Result';
+import { okAsync, errAsync } from '../src/ResultAsync';
+
+interface Db { users: Record<string, string> }
+interface Config { prefix: string }
+
+const findUser = (id: string): ReaderResultAsync<{ db: Db }, string, string> => {
+  return ReaderResultAsync.ask<{ db: Db }>().flatMap(async ({ db }): Promise<Result<string, string>> => {
+    return id in db.users ? new Ok(db.users[id]) : new Err(`no user ${id}`);
+  });
+};
+
+const db: Db = { users: { "1": "Eric" } };
+
+describe("ReaderResultAsync", () => {
+  it("should create constant computations", async () => {
+    expect(await ReaderResultAsync.ok(1).run({})).toEqual(new Ok(1));
+    expect(await ReaderResultAsync.err("a").run({})).toEqual(new Err("a"));
+    expect(await ReaderResultAsync.fromResult(okAsync(2)).run({})).toEqual(new Ok(2));
+  });
+
+  it("should read the environment", async () => {
+    expect(await ReaderResultAsync.asks(async (config: Config) => config.prefix).run({ prefix: "a" })).toEqual(new Ok("a"));
+  });
+
+  it("should map values and errors with async callbacks", async () => {
+    expect(await findUser("1").map(async (name) => name.length).run({ db })).toEqual(new Ok(4));
+    expect(await findUser("2").mapErr(async (error) => error.toUpperCase()).run({ db })).toEqual(new Err("NO USER 2"));
+  });
+
+  it("should chain any kind of step and intersect their environments", async () => {
+    const greeting = findUser("1")
+      .flatMap((name) => ReaderResult.asks((config: Config) => `${config.prefix} ${name}`))
+      .flatMap((text) => okAsync(`${text}!`))
+      .flatMap((text) => new Ok(text.length))
+      .flatMap((length) => findUser(`${length - 10}`));
+    const result: Result<string, string> = await greeting.run({ db, prefix: "Hello" });
+    expect(result).toEqual(new Ok("Eric"));
+  });
+
+  it("should stop at the first Err", async () => {
+    const next = jest.fn(() => new Ok(1));
+    expect(await findUser("2").flatMap(next).run({ db })).toEqual(new Err("no user 2"));
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it("should recover with orElse", async () => {
+    const user = findUser("2").orElse(() => findUser("1"));
+    expect(await user.run({ db })).toEqual(new Ok("Eric"));
+    expect(await findUser("2").orElse(() => errAsync("still missing")).run({ db })).toEqual(new Err("still missing"));
+  });
+
+  it("should run in a local or partly provided environment", async () => {
+    expect(await findUser("1").local((app: { database: Db }) => ({ db: app.database })).run({ database: db })).toEqual(new Ok("Eric"));
+    expect(await findUser("1").provide({ db }).run({})).toEqual(new Ok("Eric"));
+  });
+
+  it("should keep the getters of a class environment when providing", async () => {
+    class App {
+      get config(): Config {
+        return { prefix: "Dr. " };
+      }
+    }
+    const greet = findUser("1").flatMap((name) => ReaderResultAsync.asks(({ config }: { config: Config }) => `${config.prefix}${name}`));
+    expect(await greet.provide({ db }).run(new App())).toEqual(new Ok("Dr. Eric"));
+  });
+});
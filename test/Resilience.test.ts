@@ -0,0 +1,263 @@
+import { Result, Ok, Err } from '../src/Result';
+import {
+  Clock, TimeoutError, CircuitOpenError, CircuitBreaker, exponentialBackoff, retry, withTimeout, fallback,
+} from '../src/Resilience';
+
+/**
+ * A clock that only moves when told to, running the timers that are due.
+ */
+class ManualClock implements Clock {
+  private time = 0
+  private timers: { at: number; fn: () => void }[] = []
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(fn: () => void, ms: number): unknown {
+    const timer = { at: this.time + ms, fn };
+    this.timers.push(timer);
+    return timer;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers = this.timers.filter((timer) => timer !== handle);
+  }
+
+  async advance(ms: number): Promise<void> {
+    this.time += ms;
+    const due = this.timers.filter((timer) => timer.at <= this.time);
+    this.timers = this.timers.filter((timer) => timer.at > this.time);
+    due.forEach((timer) => timer.fn());
+    await flush();
+  }
+}
+
+const flush = async () => {
+  for (let i = 0; i < 10; i++) {
+    await Promise.resolve();
+  }
+};
+
+const pending = <T>() => {
+  let resolve: (value: T) => void;
+  const promise = new Promise<T>((r) => resolve = r);
+  return { promise, resolve: (value: T) => resolve(value) };
+};
+
+describe("retry", () => {
+  it("should retry until an Ok is returned", async () => {
+    const clock = new ManualClock();
+    const calls: number[] = [];
+    const result = retry(async (attempt): Promise<Result<string, string>> => {
+      calls.push(clock.now());
+      return attempt < 3 ? new Err(`failed ${attempt}`) : new Ok("done");
+    }, { attempts: 5, backoff: exponentialBackoff(100), clock });
+    await flush();
+    await clock.advance(100);
+    await clock.advance(200);
+    expect(await result).toEqual(new Ok("done"));
+    expect(calls).toEqual([0, 100, 300]);
+  });
+
+  it("should return the last Err when the attempts run out", async () => {
+    const clock = new ManualClock();
+    let calls = 0;
+    const result = retry(async (attempt) => {
+      calls++;
+      return new Err(`failed ${attempt}`);
+    }, { attempts: 2, backoff: 50, clock });
+    await flush();
+    await clock.advance(50);
+    expect(await result).toEqual(new Err("failed 2"));
+    expect(calls).toBe(2);
+  });
+
+  it("should not retry errors rejected by shouldRetry", async () => {
+    let calls = 0;
+    const result = await retry(async () => {
+      calls++;
+      return new Err({ status: 404 });
+    }, { shouldRetry: (error) => error.status >= 500 });
+    expect(result).toEqual(new Err({ status: 404 }));
+    expect(calls).toBe(1);
+  });
+
+  it("should take the jitter off the delay", async () => {
+    const clock = new ManualClock();
+    const calls: number[] = [];
+    const result = retry(async (attempt): Promise<Result<number, string>> => {
+      calls.push(clock.now());
+      return attempt < 2 ? new Err("failed") : new Ok(attempt);
+    }, { backoff: 100, jitter: 0.5, random: () => 0.5, clock });
+    await flush();
+    await clock.advance(75);
+    expect(await result).toEqual(new Ok(2));
+    expect(calls).toEqual([0, 75]);
+  });
+
+  it("should wait with the global timers by default", async () => {
+    jest.useFakeTimers();
+    try {
+      let calls = 0;
+      const result = retry(async (): Promise<Result<number, string>> => ++calls < 2 ? new Err("failed") : new Ok(calls), { backoff: 1000 });
+      await flush();
+      expect(calls).toBe(1);
+      jest.advanceTimersByTime(1000);
+      expect(await result).toEqual(new Ok(2));
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe("exponentialBackoff", () => {
+  it("should double the delay up to the maximum", () => {
+    expect([1, 2, 3, 4, 5].map(exponentialBackoff(100, 1000))).toEqual([100, 200, 400, 800, 1000]);
+  });
+});
+
+describe("withTimeout", () => {
+  it("should return the result if it arrives in time", async () => {
+    const clock = new ManualClock();
+    const result = withTimeout(async () => new Ok(1), 100, () => "timed out", clock);
+    expect(await result).toEqual(new Ok(1));
+  });
+
+  it("should return a TimeoutError when it takes too long", async () => {
+    const clock = new ManualClock();
+    const call = pending<Result<number, string>>();
+    const result = withTimeout(() => call.promise, 100, undefined, clock);
+    await clock.advance(100);
+    const error = (await result).unwrapErr();
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as TimeoutError).ms).toBe(100);
+    call.resolve(new Ok(1));
+  });
+
+  it("should return the error of onTimeout", async () => {
+    const clock = new ManualClock();
+    const result = withTimeout(() => pending<Result<number, string>>().promise, 100, () => "timed out", clock);
+    await clock.advance(100);
+    expect(await result).toEqual(new Err("timed out"));
+  });
+
+  it("should reject and clear the timer when the function throws", async () => {
+    const clock = new ManualClock();
+    const onTimeout = jest.fn(() => "timed out");
+    const result = withTimeout((): Promise<Result<number, string>> => { throw new Error("broken"); }, 100, onTimeout, clock);
+    await expect(result).rejects.toThrow("broken");
+    await clock.advance(100);
+    expect(onTimeout).not.toHaveBeenCalled();
+  });
+
+  it("should not report a rejection after the timeout as unhandled", async () => {
+    const clock = new ManualClock();
+    const unhandled = jest.fn();
+    process.on("unhandledRejection", unhandled);
+    let reject: (reason: unknown) => void = () => undefined;
+    const call = new Promise<Result<number, string>>((_, r) => reject = r);
+    const result = withTimeout(() => call, 100, () => "timed out", clock);
+    await clock.advance(100);
+    reject(new Error("late"));
+    await new Promise((resolve) => setImmediate(resolve));
+    process.off("unhandledRejection", unhandled);
+    expect(await result).toEqual(new Err("timed out"));
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+});
+
+describe("fallback", () => {
+  it("should only call the secondary when the primary fails", async () => {
+    expect(await fallback(async () => new Ok("remote"), async () => new Ok("local"))).toEqual(new Ok("remote"));
+    expect(await fallback(async () => new Err("offline"), async (error) => new Ok(`local, ${error}`))).toEqual(new Ok("local, offline"));
+    expect(await fallback(async () => new Err("offline"), async () => new Err("missing"))).toEqual(new Err("missing"));
+  });
+});
+
+describe("CircuitBreaker", () => {
+  const fail = async (): Promise<Result<number, string>> => new Err("failed");
+  const succeed = async (): Promise<Result<number, string>> => new Ok(1);
+
+  it("should open after consecutive failures", async () => {
+    const breaker = new CircuitBreaker<string>({ failureThreshold: 2, clock: new ManualClock() });
+    await breaker.run(fail);
+    await breaker.run(succeed);
+    await breaker.run(fail);
+    expect(breaker.state).toBe('closed');
+    await breaker.run(fail);
+    expect(breaker.state).toBe('open');
+
+    const fn = jest.fn(succeed);
+    const result = await breaker.run(fn);
+    expect(result.unwrapErr()).toBeInstanceOf(CircuitOpenError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("should let a single trial call through after the reset timeout", async () => {
+    const clock = new ManualClock();
+    const breaker = new CircuitBreaker<string>({ failureThreshold: 1, resetTimeout: 1000, clock });
+    await breaker.run(fail);
+    await clock.advance(1000);
+    expect(breaker.state).toBe('half-open');
+
+    const trial = pending<Result<number, string>>();
+    const first = breaker.run(() => trial.promise);
+    expect((await breaker.run(succeed)).unwrapErr()).toBeInstanceOf(CircuitOpenError);
+    trial.resolve(new Ok(1));
+    expect(await first).toEqual(new Ok(1));
+    expect(breaker.state).toBe('closed');
+  });
+
+  it("should ignore calls started before the circuit opened while the trial call runs", async () => {
+    const clock = new ManualClock();
+    const breaker = new CircuitBreaker<string>({ failureThreshold: 1, resetTimeout: 1000, clock });
+    const slow = pending<Result<number, string>>();
+    const earlier = breaker.run(() => slow.promise);
+    await breaker.run(fail);
+    await clock.advance(1000);
+
+    const trial = pending<Result<number, string>>();
+    const first = breaker.run(() => trial.promise);
+    slow.resolve(new Ok(1));
+    expect(await earlier).toEqual(new Ok(1));
+    expect(breaker.state).toBe('half-open');
+    const fn = jest.fn(succeed);
+    expect((await breaker.run(fn)).unwrapErr()).toBeInstanceOf(CircuitOpenError);
+    expect(fn).not.toHaveBeenCalled();
+
+    trial.resolve(new Err("failed"));
+    await first;
+    expect(breaker.state).toBe('open');
+  });
+
+  it("should count a trial call that throws as a failure", async () => {
+    const clock = new ManualClock();
+    const breaker = new CircuitBreaker<string>({ failureThreshold: 1, resetTimeout: 1000, clock });
+    await breaker.run(fail);
+    await clock.advance(1000);
+    await expect(breaker.run(() => { throw new Error("broken"); })).rejects.toThrow("broken");
+    expect(breaker.state).toBe('open');
+    await clock.advance(1000);
+    expect(await breaker.run(succeed)).toEqual(new Ok(1));
+    expect(breaker.state).toBe('closed');
+  });
+
+  it("should open again when the trial call fails", async () => {
+    const clock = new ManualClock();
+    const breaker = new CircuitBreaker<string>({ failureThreshold: 2, resetTimeout: 1000, clock });
+    await breaker.run(fail);
+    await breaker.run(fail);
+    await clock.advance(1000);
+    await breaker.run(fail);
+    expect(breaker.state).toBe('open');
+    await clock.advance(999);
+    expect(breaker.state).toBe('open');
+  });
+
+  it("should only count the errors accepted by isFailure", async () => {
+    const breaker = new CircuitBreaker<string>({ failureThreshold: 1, isFailure: (error) => error !== "failed" });
+    await breaker.run(fail);
+    expect(breaker.state).toBe('closed');
+  });
+});
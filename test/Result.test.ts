@@ -1,4 +1,8 @@
 import { Result, Ok, Err, ok, err } from '../src/Result';
+import { okAsync, errAsync } from '../src/ResultAsync';
+import { UnwrapError } from '../src/UnwrapError';
+import { Maybe, Some, None } from '../src/Maybe';
+import { deepEqual } from '../src/Equality';
 
 describe("Ok functions", () => {
   it("isOk should return true", () => {
@@ -139,3 +143,391 @@ describe("Err functions", () => {
     if (res.isErr()) expect(res.error).toBe("error");
   });
 })
+
+describe("Result.gen", () => {
+  const parse = (value: string): Result<number, string> =>
+    isNaN(Number(value)) ? new Err(`${value} is not a number`) : new Ok(Number(value));
+  const positive = (value: number): Result<number, number> =>
+    value > 0 ? new Ok(value) : new Err(value);
+
+  it("should return Ok with the returned value when every step is Ok", () => {
+    const res = Result.gen(function* () {
+      const a = yield* parse("1").bind();
+      const b = yield* positive(a + 1).bind();
+      return a + b;
+    });
+    expect(res.isOk()).toBe(true);
+    expect(res.unwrap()).toBe(3);
+  });
+
+  it("should short circuit on the first Err", () => {
+    const after = jest.fn();
+    const res: Result<number, string | number> = Result.gen(function* () {
+      const a = yield* parse("cow").bind();
+      after();
+      const b = yield* positive(a).bind();
+      return a + b;
+    });
+    expect(after).not.toHaveBeenCalled();
+    expect(res.isErr()).toBe(true);
+    if (res.isErr()) expect(res.error).toBe("cow is not a number");
+  });
+
+  it("should run finally blocks when short circuiting", () => {
+    const cleanup = jest.fn();
+    Result.gen(function* () {
+      try {
+        return yield* positive(-1).bind();
+      } finally {
+        cleanup();
+      }
+    });
+    expect(cleanup).toHaveBeenCalled();
+  });
+
+  it("should leave results comparable with toEqual", () => {
+    expect(new Ok(1)).not.toEqual(new Ok(2));
+    expect(new Err("a")).not.toEqual(new Err("b"));
+    expect(new Ok(1)).not.toEqual(new Err(1));
+  });
+
+  it("genAsync should accept both Result and ResultAsync values", async () => {
+    const res = await Result.genAsync(async function* () {
+      const a = yield* parse("2").bind();
+      const b = yield* okAsync(a * 2).bind();
+      return a + b;
+    });
+    expect(res.unwrap()).toBe(6);
+  });
+
+  it("genAsync should short circuit on the first Err", async () => {
+    const res = await Result.genAsync(async function* () {
+      const a = yield* errAsync<number, string>("async error").bind();
+      return yield* positive(a).bind();
+    });
+    expect(res.isErr()).toBe(true);
+    if (res.isErr()) expect(res.error).toBe("async error");
+  });
+});
+
+describe("Result collection functions", () => {
+  it("all should collect the values of a tuple of Ok values", () => {
+    const a: Result<number, string> = new Ok(1);
+    const b: Result<string, number> = new Ok("foo");
+    const res: Result<[number, string], string | number> = Result.all([a, b]);
+    expect(res.unwrap()).toEqual([1, "foo"]);
+  });
+
+  it("all should return the first Err", () => {
+    const res = Result.all([new Ok(1), new Err("first"), new Err("second")]);
+    expect(res.isErr()).toBe(true);
+    if (res.isErr()) expect(res.error).toBe("first");
+  });
+
+  it("all should collect the values of a record of Ok values", () => {
+    const res: Result<{ a: number, b: string }, never> = Result.all({ a: new Ok(1), b: new Ok("foo") });
+    expect(res.unwrap()).toEqual({ a: 1, b: "foo" });
+  });
+
+  it("all should return Ok with an empty array for an empty array", () => {
+    expect(Result.all([]).unwrap()).toEqual([]);
+  });
+
+  it("allSettled should collect every error", () => {
+    const res = Result.allSettled([new Err("a"), new Ok(1), new Err("b")]);
+    expect(res.isErr()).toBe(true);
+    if (res.isErr()) expect(res.error).toEqual(["a", "b"]);
+  });
+
+  it("allSettled should collect the values of a record when every value is Ok", () => {
+    const res = Result.allSettled({ a: new Ok(1), b: new Ok(2) });
+    expect(res.unwrap()).toEqual({ a: 1, b: 2 });
+  });
+
+  it("any should return the first Ok", () => {
+    const res = Result.any([new Err("a"), new Ok(2), new Ok(3)]);
+    expect(res.unwrap()).toBe(2);
+  });
+
+  it("any should return every error when there is no Ok", () => {
+    const a: Result<number, string> = new Err("a");
+    const b: Result<number, number> = new Err(2);
+    const res: Result<number, [string, number]> = Result.any([a, b]);
+    expect(res.isErr()).toBe(true);
+    if (res.isErr()) expect(res.error).toEqual(["a", 2]);
+  });
+
+  it("partition should split values and errors", () => {
+    const results: Result<number, string>[] = [new Ok(1), new Err("a"), new Ok(2)];
+    const [values, errors]: [number[], string[]] = Result.partition(results);
+    expect(values).toEqual([1, 2]);
+    expect(errors).toEqual(["a"]);
+  });
+});
+
+describe("Result exception capturing", () => {
+  const throwing = (value: string): number => {
+    if (value === "throw") throw new Error("thrown");
+    return value.length;
+  };
+
+  it("try should return Ok when the function returns", () => {
+    expect(Result.try(() => throwing("foo")).unwrap()).toBe(3);
+  });
+
+  it("try should return Err with the thrown value", () => {
+    const res = Result.try(() => throwing("throw"));
+    expect(res.isErr()).toBe(true);
+    if (res.isErr()) expect(res.error).toBeInstanceOf(Error);
+  });
+
+  it("try should map the thrown value with the supplied mapper", () => {
+    const res: Result<number, string> = Result.try(() => throwing("throw"), (e) => (e as Error).message);
+    if (res.isErr()) expect(res.error).toBe("thrown");
+  });
+
+  it("fromThrowable should keep the parameters of the function", () => {
+    const safe = Result.fromThrowable(throwing, () => "failed");
+    expect(safe("foo").unwrap()).toBe(3);
+    expect(safe("throw").isErr()).toBe(true);
+  });
+});
+
+describe("Result unwrap errors", () => {
+  it("unwrap on Err should throw an UnwrapError with the error as cause", () => {
+    const error = new TypeError("boom");
+    const res: Result<number, TypeError> = new Err(error);
+    try {
+      res.unwrap();
+      fail("unwrap should throw");
+    } catch (e) {
+      expect(e).toBeInstanceOf(UnwrapError);
+      expect(e.cause).toBe(error);
+    }
+  });
+
+  it("unwrap on Err should not crash when the error is undefined", () => {
+    const res: Result<number, undefined> = new Err(undefined);
+    expect(() => res.unwrap()).toThrowError(UnwrapError);
+  });
+
+  it("unwrap and unwrapErr should throw an UnwrapError for values without a prototype", () => {
+    const error = Object.assign(Object.create(null), { code: 404 });
+    expect(() => new Err(error).unwrap()).toThrowError(new UnwrapError("Unwrap called on Err value: { code: 404 }"));
+    expect(() => new Ok(Object.create(null)).unwrapErr()).toThrowError(new UnwrapError("UnwrapErr called on Ok value: {}"));
+  });
+
+  it("unwrapErr should return the error of an Err", () => {
+    expect(new Err("error").unwrapErr()).toBe("error");
+  });
+
+  it("unwrapErr on Ok should throw an UnwrapError with the value as cause", () => {
+    const res: Result<number, string> = new Ok(1);
+    expect(() => res.unwrapErr()).toThrowError(UnwrapError);
+  });
+
+  it("expect should return the value of an Ok", () => {
+    expect(new Ok(1).expect("should be ok")).toBe(1);
+  });
+
+  it("expect on Err should throw an UnwrapError with the supplied message", () => {
+    const res: Result<number, string> = new Err("error");
+    expect(() => res.expect("should be ok")).toThrowError(new UnwrapError("should be ok"));
+  });
+
+  it("expectErr should return the error of an Err and throw on Ok", () => {
+    expect(new Err("error").expectErr("should be err")).toBe("error");
+    expect(() => new Ok(1).expectErr("should be err")).toThrowError("should be err");
+  });
+});
+
+describe("Result combinators", () => {
+  const okValue: Result<number, string> = new Ok(2);
+  const errValue: Result<number, string> = new Err("error");
+
+  it("flatMap should allow the function to return a different error type", () => {
+    const mapped: Result<string, string | number> = okValue.flatMap((value): Result<string, number> => new Err(value));
+    if (mapped.isErr()) expect(mapped.error).toBe(2);
+  });
+
+  it("andThen should behave like flatMap", () => {
+    expect(okValue.andThen((value) => new Ok(value * 2)).unwrap()).toBe(4);
+    expect(errValue.andThen((value) => new Ok(value * 2)).isErr()).toBe(true);
+  });
+
+  it("and should return the supplied result for Ok and pass through Err", () => {
+    expect(okValue.and(new Ok("foo")).unwrap()).toBe("foo");
+    expect(errValue.and(new Ok("foo")).unwrapErr()).toBe("error");
+  });
+
+  it("or should return the Ok or the supplied result", () => {
+    expect(okValue.or(new Ok(3)).unwrap()).toBe(2);
+    expect(errValue.or(new Ok(3)).unwrap()).toBe(3);
+  });
+
+  it("orElse should recover from an Err", () => {
+    const fn = jest.fn((error: string) => new Ok(error.length));
+    expect(okValue.orElse(fn).unwrap()).toBe(2);
+    expect(fn).not.toHaveBeenCalled();
+    expect(errValue.orElse(fn).unwrap()).toBe(5);
+  });
+
+  it("mapOrElse should compute the default from the error", () => {
+    expect(okValue.mapOrElse((value) => value * 2, (error) => error.length).unwrap()).toBe(4);
+    expect(errValue.mapOrElse((value) => value * 2, (error) => error.length).unwrap()).toBe(5);
+  });
+
+  it("unwrapOrElse should compute the default from the error", () => {
+    expect(okValue.unwrapOrElse((error) => error.length)).toBe(2);
+    expect(errValue.unwrapOrElse((error) => error.length)).toBe(5);
+  });
+
+  it("inspect and inspectErr should call the function and return the result unchanged", () => {
+    const inspect = jest.fn();
+    const inspectErr = jest.fn();
+    expect(okValue.inspect(inspect).inspectErr(inspectErr)).toBe(okValue);
+    expect(errValue.inspect(inspect).inspectErr(inspectErr)).toBe(errValue);
+    expect(inspect).toHaveBeenCalledWith(2);
+    expect(inspectErr).toHaveBeenCalledWith("error");
+  });
+
+  it("isOkAnd and isErrAnd should check the predicate", () => {
+    expect(okValue.isOkAnd((value) => value > 1)).toBe(true);
+    expect(okValue.isOkAnd((value) => value > 2)).toBe(false);
+    expect(errValue.isOkAnd(() => true)).toBe(false);
+    expect(errValue.isErrAnd((error) => error === "error")).toBe(true);
+    expect(okValue.isErrAnd(() => true)).toBe(false);
+  });
+
+  it("iter should yield the value of an Ok only", () => {
+    expect([...okValue.iter()]).toEqual([2]);
+    expect([...errValue.iter()]).toEqual([]);
+  });
+
+  it("flatten should remove one level of nesting", () => {
+    const nested: Result<Result<number, number>, string> = new Ok(new Err(1));
+    const flat: Result<number, string | number> = nested.flatten();
+    expect(flat.unwrapErr()).toBe(1);
+    expect(new Ok(new Ok(1)).flatten().unwrap()).toBe(1);
+    expect(new Err<Result<number, string>, string>("outer").flatten().unwrapErr()).toBe("outer");
+  });
+
+  it("transpose should turn a Result of a Maybe into a Maybe of a Result", () => {
+    const some: Result<Maybe<number>, string> = new Ok(new Some(1));
+    const none: Result<Maybe<number>, string> = new Ok(new None());
+    const error: Result<Maybe<number>, string> = new Err("error");
+    expect(some.transpose().unwrap().unwrap()).toBe(1);
+    expect(none.transpose().isNone()).toBe(true);
+    expect(error.transpose().unwrap().unwrapErr()).toBe("error");
+  });
+});
+
+describe("Result equality and ordering", () => {
+  it("equals should compare values and errors structurally", () => {
+    expect(new Ok({ id: 1 }).equals(new Ok({ id: 1 }))).toBe(true);
+    expect(new Err({ code: 1 }).equals(new Err({ code: 1 }))).toBe(true);
+    expect(new Ok<string, string>("a").equals(new Err("a"))).toBe(false);
+  });
+
+  it("equals should use the supplied comparisons", () => {
+    const ok: Result<number, string> = new Ok(1);
+    expect(ok.equals(new Ok(2), () => true)).toBe(true);
+    const err: Result<number, string> = new Err("a");
+    expect(err.equals(new Err("A"), undefined, (a, b) => a.toLowerCase() === b.toLowerCase())).toBe(true);
+  });
+
+  it("contains should accept a comparison", () => {
+    expect(new Ok({ id: 1 }).contains({ id: 1 })).toBe(false);
+    expect(new Ok({ id: 1 }).contains({ id: 1 }, deepEqual)).toBe(true);
+    expect(new Err({ code: 1 }).contains({ code: 1 }, deepEqual)).toBe(true);
+  });
+
+  it("toEqual should compare results structurally", () => {
+    expect(new Ok({ id: 1 })).toEqual(new Ok({ id: 1 }));
+    expect(new Ok(1)).not.toEqual(new Ok(2));
+    expect(new Err("a")).toEqual(new Err("a"));
+    expect(new Err("a")).not.toEqual(new Err("b"));
+    expect(new Err("a")).not.toStrictEqual(new Err("b"));
+    expect(new Ok("a")).not.toEqual(new Err("a"));
+  });
+
+  it("compare should order Err before Ok", () => {
+    const results: Result<number, string>[] = [new Ok(2), new Err("b"), new Ok(1), new Err("a")];
+    expect(results.sort(Result.comparator())).toEqual([new Err("a"), new Err("b"), new Ok(1), new Ok(2)]);
+    expect(new Ok<number, string>(1).compare(new Err("a"))).toBeGreaterThan(0);
+  });
+});
+
+describe("Result.isResult", () => {
+  let copy: typeof import('../src/Result');
+  beforeAll(() => {
+    jest.resetModules();
+    copy = require('../src/Result');
+  });
+
+  it("should tell results from other values", () => {
+    expect(Result.isResult(new Ok(1))).toBe(true);
+    expect(Result.isResult(new Err("a"))).toBe(true);
+    expect(Result.isResult(new Some(1))).toBe(false);
+    expect(Result.isResult({ __tag: "Ok", value: 1 })).toBe(false);
+    expect(Result.isResult(null)).toBe(false);
+    expect(Result.isResult("Ok")).toBe(false);
+  });
+
+  it("should recognise results from another copy of the library", () => {
+    const other = new copy.Ok(1);
+    expect(other).not.toBeInstanceOf(Ok);
+    expect(Result.isResult(other)).toBe(true);
+    expect(Result.gen(function* () {
+      const a = yield* new copy.Ok(1).bind();
+      const b: number = yield* new copy.Err<number, string>("stop").bind();
+      return a + b;
+    })).toEqual(new copy.Err("stop"));
+  });
+
+  it("should narrow on __tag", () => {
+    const describe = (result: Result<number, string>): string => {
+      switch (result.__tag) {
+        case 'Ok':
+          return `value ${result.value}`;
+        case 'Err':
+          return `error ${result.error}`;
+      }
+    };
+    expect(describe(new Ok(1))).toBe("value 1");
+    expect(describe(new Err("a"))).toBe("error a");
+  });
+});
+
+describe("Result immutability", () => {
+  class Animal { name = "animal" }
+  class Dog extends Animal { bark = () => "woof" }
+
+  it("should freeze new results", () => {
+    const ok = new Ok({ id: 1 });
+    const failed = new Err("a");
+    expect(Object.isFrozen(ok)).toBe(true);
+    expect(Object.isFrozen(failed)).toBe(true);
+    expect(() => { (ok as { value: unknown }).value = 2; }).toThrow(TypeError);
+    expect(Object.isFrozen(ok.value)).toBe(false);
+  });
+
+  it("should have readonly fields", () => {
+    const ok = new Ok(1);
+    // @ts-expect-error value is readonly
+    expect(() => { ok.value = 2; }).toThrow(TypeError);
+    const failed = new Err("a");
+    // @ts-expect-error error is readonly
+    expect(() => { failed.error = "b"; }).toThrow(TypeError);
+  });
+
+  it("should be covariant", () => {
+    const dog: Result<Dog, string> = new Ok(new Dog());
+    const animal: Result<Animal, string> = dog;
+    const failed: Result<number, string> = new Err<never, string>("a");
+    const widened: Result<number | string, string | Error> = failed;
+    // @ts-expect-error an animal is not a dog
+    const narrowed: Result<Dog, string> = animal;
+    expect([animal, widened, narrowed]).toHaveLength(3);
+  });
+});
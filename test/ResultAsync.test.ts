@@ -0,0 +1,133 @@
+import { Result, Ok, Err } from '../src/Result';
+import { ResultAsync, okAsync, errAsync } from '../src/ResultAsync';
+
+describe("ResultAsync constructors", () => {
+  it("fromPromise should resolve to Ok when the promise resolves", async () => {
+    const res = await ResultAsync.fromPromise(Promise.resolve(10), () => "error");
+    expect(res.isOk()).toBe(true);
+    expect(res.unwrap()).toBe(10);
+  });
+
+  it("fromPromise should resolve to a mapped Err when the promise rejects", async () => {
+    const res = await ResultAsync.fromPromise(Promise.reject("boom"), (reason) => `${reason}!`);
+    expect(res.isErr()).toBe(true);
+    if (res.isErr()) expect(res.error).toBe("boom!");
+  });
+
+  it("fromSafePromise should resolve to Ok", async () => {
+    const res = await ResultAsync.fromSafePromise(Promise.resolve("value"));
+    expect(res.unwrap()).toBe("value");
+  });
+
+  it("toAsync should lift a synchronous Result", async () => {
+    const res = await new Ok<number, string>(2).toAsync().map((value) => value * 2);
+    expect(res.unwrap()).toBe(4);
+  });
+});
+
+describe("ResultAsync on Ok", () => {
+  it("map should accept synchronous and asynchronous functions", async () => {
+    const res = await okAsync(2)
+      .map((value) => value * 2)
+      .map(async (value) => value + 1);
+    expect(res).toBeInstanceOf(Ok);
+    expect(res.unwrap()).toBe(5);
+  });
+
+  it("mapErr should leave the Ok untouched", async () => {
+    const res = await okAsync(2).mapErr(async () => "error");
+    expect(res.unwrap()).toBe(2);
+  });
+
+  it("flatMap should allow mixing Result, ResultAsync and promises of Result", async () => {
+    const start: ResultAsync<string, string> = okAsync("10");
+    const res = await start
+      .flatMap((value): Result<number, string> => new Ok(parseInt(value)))
+      .flatMap((value) => okAsync(value * 2))
+      .flatMap(async (value) => new Ok(value + 1));
+    expect(res.unwrap()).toBe(21);
+  });
+
+  it("match should resolve to the Ok branch", async () => {
+    const match = await okAsync<number>(3).match({
+      'Ok': async (value) => value * 2,
+      'Err': () => 0,
+    });
+    expect(match).toBe(6);
+  });
+
+  it("unwrapOr should resolve to the contained value", async () => {
+    expect(await okAsync(42).unwrapOr(117)).toBe(42);
+  });
+
+  it("ok and err should resolve to Maybe values", async () => {
+    expect((await okAsync(1).ok()).unwrap()).toBe(1);
+    expect((await okAsync(1).err()).isNone()).toBe(true);
+  });
+});
+
+describe("ResultAsync on Err", () => {
+  it("map should pass through the Err", async () => {
+    const fn = jest.fn((value: number) => value * 2);
+    const res = await errAsync<number, string>("error").map(fn);
+    expect(res).toBeInstanceOf(Err);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("mapErr should map the error with an asynchronous function", async () => {
+    const res = await errAsync<number, string>("error").mapErr(async (error) => error.length);
+    if (res.isErr()) expect(res.error).toBe(5);
+  });
+
+  it("flatMap should short circuit", async () => {
+    const fn = jest.fn((value: number) => okAsync(value));
+    const res = await errAsync<number, string>("error").flatMap(fn);
+    expect(res.isErr()).toBe(true);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("match should resolve to the Err branch", async () => {
+    const match = await errAsync<number, string>("Cow").match({
+      'Ok': (value) => value,
+      'Err': async (error) => error.length,
+    });
+    expect(match).toBe(3);
+  });
+
+  it("unwrapOr should resolve to the default value", async () => {
+    expect(await errAsync<number, string>("error").unwrapOr(117)).toBe(117);
+  });
+
+  it("ok and err should resolve to Maybe values", async () => {
+    expect((await errAsync("error").ok()).isNone()).toBe(true);
+    expect((await errAsync("error").err()).unwrap()).toBe("error");
+  });
+});
+
+describe("ResultAsync exception capturing", () => {
+  const rejecting = async (value: string): Promise<number> => {
+    if (value === "reject") throw new Error("rejected");
+    return value.length;
+  };
+
+  it("try should resolve to Ok when the promise resolves", async () => {
+    expect((await ResultAsync.try(() => rejecting("foo"))).unwrap()).toBe(3);
+  });
+
+  it("try should resolve to a mapped Err when the promise rejects", async () => {
+    const res = await ResultAsync.try(() => rejecting("reject"), (e) => (e as Error).message);
+    if (res.isErr()) expect(res.error).toBe("rejected");
+  });
+
+  it("try should resolve to Err when the function throws synchronously", async () => {
+    const res = await ResultAsync.try((): number => { throw "sync"; });
+    expect(res.isErr()).toBe(true);
+    if (res.isErr()) expect(res.error).toBe("sync");
+  });
+
+  it("fromThrowable should keep the parameters of the function", async () => {
+    const safe = ResultAsync.fromThrowable(rejecting, () => "failed");
+    expect((await safe("foo")).unwrap()).toBe(3);
+    expect((await safe("reject")).isErr()).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+import { TaggedError } from '../src/TaggedError';
+import { Result, Ok, Err } from '../src/Result';
+
+class NotFound extends TaggedError<'NotFound'> {
+  readonly id: string
+
+  constructor(id: string) {
+    super('NotFound', `${id} was not found`);
+    this.id = id;
+  }
+}
+
+class Forbidden extends TaggedError<'Forbidden'> {
+  constructor(cause?: unknown) {
+    super('Forbidden', 'Access denied', cause);
+  }
+}
+
+class Timeout extends TaggedError<'Timeout'> {
+  constructor() {
+    super('Timeout');
+  }
+}
+
+type FetchError = NotFound | Forbidden | Timeout;
+
+const failWith = (error: FetchError): Result<string, FetchError> => new Err(error);
+
+describe("TaggedError", () => {
+  it("should keep the tag, message and cause", () => {
+    const cause = new Error("401");
+    const error = new Forbidden(cause);
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toBeInstanceOf(Forbidden);
+    expect(error._tag).toBe('Forbidden');
+    expect(error.name).toBe('Forbidden');
+    expect(error.message).toBe('Access denied');
+    expect(error.cause).toBe(cause);
+  });
+});
+
+describe("catchTag", () => {
+  it("should handle the error with the supplied tag", () => {
+    const result: Result<string, Forbidden | Timeout> = failWith(new NotFound("1"))
+      .catchTag('NotFound', (error) => new Ok(`guest ${error.id}`));
+    expect(result).toEqual(new Ok("guest 1"));
+  });
+
+  it("should pass through other errors and Ok values", () => {
+    const timeout = new Timeout();
+    expect(failWith(timeout).catchTag('NotFound', () => new Ok("guest")).unwrapErr()).toBe(timeout);
+    expect(new Ok<string, FetchError>("user").catchTag('NotFound', () => new Ok("guest"))).toEqual(new Ok("user"));
+  });
+
+  it("should add the errors of the handler", () => {
+    const result: Result<string, Forbidden | Timeout | string> = failWith(new NotFound("1"))
+      .catchTag('NotFound', () => new Err("still missing"));
+    expect(result).toEqual(new Err("still missing"));
+  });
+});
+
+describe("catchTags", () => {
+  it("should handle every supplied tag", () => {
+    const handle = (error: FetchError): Result<string | null, Timeout> => failWith(error).catchTags({
+      NotFound: () => new Ok(null),
+      Forbidden: (error) => new Ok(`forbidden ${error.message}`),
+    });
+    expect(handle(new NotFound("1"))).toEqual(new Ok(null));
+    expect(handle(new Forbidden())).toEqual(new Ok("forbidden Access denied"));
+    expect(handle(new Timeout()).unwrapErr()).toBeInstanceOf(Timeout);
+  });
+
+  it("should only accept tags of the error type", () => {
+    // @ts-expect-error Missing is not a tag of FetchError
+    failWith(new Timeout()).catchTags({ Missing: () => new Ok("") });
+  });
+
+  it("should ignore errors without a tag", () => {
+    const result: Result<string, string> = new Err("plain");
+    expect(result.catchTags({})).toEqual(new Err("plain"));
+  });
+});
@@ -0,0 +1,82 @@
+import { Left, Right } from '../src/Either';
+import { Some, None } from '../src/Maybe';
+import { Result, Ok, Err } from '../src/Result';
+import { These, This, That, Both } from '../src/These';
+
+const concat = (first: string[], second: string[]) => [...first, ...second];
+
+const parsePort = (text: string): These<string[], number> => {
+  const port = Number(text);
+  if (isNaN(port)) {
+    return new This([`${text} is not a number`]);
+  }
+  return Number.isInteger(port) ? new That(port) : new Both([`${text} was rounded`], Math.round(port));
+};
+
+describe("These", () => {
+  it("isThis, isThat and isBoth should tell the cases apart", () => {
+    expect(parsePort("a").isThis()).toBe(true);
+    expect(parsePort("80").isThat()).toBe(true);
+    expect(parsePort("80.2").isBoth()).toBe(true);
+    expect(parsePort("80").isBoth()).toBe(false);
+  });
+
+  it("match and fold should call the branch of the case", () => {
+    const describe = (these: These<string[], number>) => these.match({
+      'This': (errors) => errors.join(", "),
+      'That': (port) => `${port}`,
+      'Both': (warnings, port) => `${port} (${warnings.join(", ")})`,
+    });
+    expect(describe(parsePort("a"))).toBe("a is not a number");
+    expect(describe(parsePort("80"))).toBe("80");
+    expect(describe(parsePort("80.2"))).toBe("80 (80.2 was rounded)");
+    expect(parsePort("80.2").fold(() => 0, (port) => port, (_, port) => -port)).toBe(-80);
+  });
+
+  it("mapThis, mapThat and bimap should map the present values", () => {
+    expect(parsePort("80.2").mapThis((warnings) => warnings.length)).toEqual(new Both(1, 80));
+    expect(parsePort("80").mapThis((warnings) => warnings.length)).toEqual(new That(80));
+    expect(parsePort("80.2").mapThat((port) => port + 1)).toEqual(new Both(["80.2 was rounded"], 81));
+    expect(parsePort("a").mapThat((port) => port + 1)).toEqual(new This(["a is not a number"]));
+    expect(parsePort("a").bimap((errors) => errors.length, (port) => port + 1)).toEqual(new This(1));
+  });
+
+  it("flatMap should combine the warnings", () => {
+    const positive = (port: number): These<string[], number> => port > 0 ? new That(port) : new Both(["negative"], -port);
+    expect(parsePort("80").flatMap(positive, concat)).toEqual(new That(80));
+    expect(parsePort("-80.2").flatMap(positive, concat)).toEqual(new Both(["-80.2 was rounded", "negative"], 80));
+    expect(parsePort("80.2").flatMap(() => new This(["rejected"]), concat)).toEqual(new This(["80.2 was rounded", "rejected"]));
+    expect(parsePort("a").flatMap(positive, concat)).toEqual(new This(["a is not a number"]));
+  });
+
+  it("swap should swap the values", () => {
+    expect(new Both("a", 1).swap()).toEqual(new Both(1, "a"));
+    expect(new This("a").swap()).toEqual(new That("a"));
+    expect(new That(1).swap()).toEqual(new This(1));
+  });
+
+  it("getThis and getThat should return the present values", () => {
+    expect(parsePort("80.2").getThis()).toEqual(new Some(["80.2 was rounded"]));
+    expect(parsePort("80.2").getThat()).toEqual(new Some(80));
+    expect(parsePort("80").getThis()).toEqual(new None());
+    expect(parsePort("a").getThat()).toEqual(new None());
+  });
+
+  it("should convert to Result and Either", () => {
+    expect(parsePort("80.2").toResult()).toEqual(new Ok(80));
+    expect(parsePort("a").toResult()).toEqual(new Err(["a is not a number"]));
+    expect(parsePort("80.2").toEither()).toEqual(new Right(80));
+    expect(parsePort("a").toEither()).toEqual(new Left(["a is not a number"]));
+  });
+
+  it("should convert from Result, Either and Maybe", () => {
+    expect(These.fromResult(new Ok(1) as Result<number, string>)).toEqual(new That(1));
+    expect(These.fromResult(new Err("a") as Result<number, string>)).toEqual(new This("a"));
+    expect(These.fromEither(new Left("a"))).toEqual(new This("a"));
+    expect(These.fromEither(new Right(1))).toEqual(new That(1));
+    expect(These.fromMaybes(new Some("a"), new Some(1))).toEqual(new Some(new Both("a", 1)));
+    expect(These.fromMaybes(new Some("a"), new None())).toEqual(new Some(new This("a")));
+    expect(These.fromMaybes(new None(), new Some(1))).toEqual(new Some(new That(1)));
+    expect(These.fromMaybes(new None(), new None())).toEqual(new None());
+  });
+});
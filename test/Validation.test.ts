@@ -0,0 +1,141 @@
+import { Result, Ok, Err } from '../src/Result';
+import { Validation, Valid, Invalid, valid, invalid } from '../src/Validation';
+
+const positive = (value: number): Validation<number, string> =>
+  value > 0 ? valid(value) : invalid(`${value} is not positive`);
+const nonEmpty = (value: string): Validation<string, string> =>
+  value.length > 0 ? valid(value) : invalid("string is empty");
+
+describe("Valid functions", () => {
+  it("isValid should return true", () => {
+    const validation: Validation<number, string> = new Valid(1);
+    expect(validation.isValid()).toBe(true);
+    expect(validation.isInvalid()).toBe(false);
+  });
+
+  it("match should return the result of the Valid branch", () => {
+    const match = positive(2).match({
+      'Valid': (value) => value * 2,
+      'Invalid': (errors) => errors.length,
+    });
+    expect(match).toBe(4);
+  });
+
+  it("map should map the contained value", () => {
+    expect(positive(2).map((value) => value * 2).unwrapOr(0)).toBe(4);
+  });
+
+  it("mapErr should leave the value untouched", () => {
+    expect(positive(2).mapErr((error) => error.length).unwrapOr(0)).toBe(2);
+  });
+
+  it("flatMap should apply the function", () => {
+    const validation = positive(2).flatMap((value) => nonEmpty(`${value}`));
+    expect(validation.unwrapOr("")).toBe("2");
+  });
+
+  it("toResult should return Ok", () => {
+    const res = positive(2).toResult();
+    expect(res).toBeInstanceOf(Ok);
+    expect(res.unwrap()).toBe(2);
+  });
+});
+
+describe("Invalid functions", () => {
+  it("isInvalid should return true", () => {
+    const validation: Validation<number, string> = new Invalid(["error"]);
+    expect(validation.isValid()).toBe(false);
+    expect(validation.isInvalid()).toBe(true);
+  });
+
+  it("match should return the result of the Invalid branch", () => {
+    const match = positive(-1).match({
+      'Valid': (value) => value,
+      'Invalid': (errors) => errors.length,
+    });
+    expect(match).toBe(1);
+  });
+
+  it("map should pass through the errors", () => {
+    const validation = positive(-1).map((value) => value * 2);
+    expect(validation.isInvalid()).toBe(true);
+  });
+
+  it("mapErr should map every error", () => {
+    const validation = new Invalid<number, string>(["a", "bb"]).mapErr((error) => error.length);
+    if (validation.isInvalid()) expect(validation.errors).toEqual([1, 2]);
+  });
+
+  it("flatMap should stop at the Invalid", () => {
+    const fn = jest.fn(nonEmpty);
+    const validation = positive(-1).flatMap((value) => fn(`${value}`));
+    expect(validation.isInvalid()).toBe(true);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("unwrapOr should return the default value", () => {
+    expect(positive(-1).unwrapOr(10)).toBe(10);
+  });
+
+  it("toResult should return Err with all the errors", () => {
+    const res = new Invalid<number, string>(["a", "b"]).toResult();
+    expect(res.isErr()).toBe(true);
+    if (res.isErr()) expect(res.error).toEqual(["a", "b"]);
+  });
+});
+
+describe("Validation combinators", () => {
+  it("combine should collect the values when every validation is Valid", () => {
+    const validation: Validation<[number, string], string> = Validation.combine([positive(1), nonEmpty("foo")]);
+    expect(validation.unwrapOr(null)).toEqual([1, "foo"]);
+  });
+
+  it("combine should accumulate every error", () => {
+    const validation = Validation.combine([positive(-1), nonEmpty("foo"), nonEmpty("")]);
+    expect(validation.isInvalid()).toBe(true);
+    if (validation.isInvalid()) {
+      expect(validation.errors).toEqual(["-1 is not positive", "string is empty"]);
+    }
+  });
+
+  it("mapN should apply the function to every value", () => {
+    const validation = Validation.mapN([positive(2), nonEmpty("ab")], (count, str) => str.repeat(count));
+    expect(validation.unwrapOr("")).toBe("abab");
+  });
+
+  it("mapN should accumulate every error", () => {
+    const fn = jest.fn();
+    const validation = Validation.mapN([positive(0), nonEmpty("")], fn);
+    expect(fn).not.toHaveBeenCalled();
+    if (validation.isInvalid()) expect(validation.errors).toHaveLength(2);
+  });
+
+  it("validateStruct should collect the values into a record", () => {
+    const validation: Validation<{ age: number, name: string }, string> = Validation.validateStruct({
+      age: positive(42),
+      name: nonEmpty("Eric"),
+    });
+    expect(validation.unwrapOr(null)).toEqual({ age: 42, name: "Eric" });
+  });
+
+  it("validateStruct should accumulate every error", () => {
+    const validation = Validation.validateStruct({ age: positive(-1), name: nonEmpty("") });
+    if (validation.isInvalid()) {
+      expect(validation.errors).toEqual(["-1 is not positive", "string is empty"]);
+    }
+  });
+});
+
+describe("Validation conversions", () => {
+  it("fromResult should convert Ok to Valid and Err to Invalid", () => {
+    expect(Validation.fromResult(new Ok(1))).toBeInstanceOf(Valid);
+    const validation = Validation.fromResult(new Err("error"));
+    if (validation.isInvalid()) expect(validation.errors).toEqual(["error"]);
+  });
+
+  it("fromResultErrors should be the inverse of toResult", () => {
+    const original = new Invalid<number, string>(["a", "b"]);
+    const res: Result<number, [string, ...string[]]> = original.toResult();
+    expect(Validation.fromResultErrors(res)).toEqual(original);
+  });
+});
@@ -0,0 +1,43 @@
+import * as M from '../../src/fp/Maybe';
+import { Some, None } from '../../src/Maybe';
+import { Ok, Err } from '../../src/Result';
+
+describe("Maybe pipeable functions", () => {
+  it("should chain with pipe", () => {
+    const lookup = (key: string) => M.pipe(
+      M.fromNullable(new Map([["a", "value"], ["b", ""]]).get(key)),
+      M.filter((value) => value.length > 0),
+      M.map((value) => value.toUpperCase()),
+      M.unwrapOr("default"),
+    );
+    expect(lookup("a")).toBe("VALUE");
+    expect(lookup("b")).toBe("default");
+    expect(lookup("c")).toBe("default");
+  });
+
+  it("should convert to results", () => {
+    expect(M.pipe(M.some(1), M.okOr("missing"))).toEqual(new Ok(1));
+    expect(M.pipe(M.none<number>(), M.okOrElse(() => "missing"))).toEqual(new Err("missing"));
+    expect(M.transpose(new Some(new Ok(1)))).toEqual(new Ok(new Some(1)));
+  });
+
+  it("should combine maybes", () => {
+    expect(M.pipe(M.some(1), M.zip(M.some("a")))).toEqual(new Some([1, "a"]));
+    expect(M.pipe(M.some(1), M.zipWith(M.some(2), (a, b) => a + b))).toEqual(new Some(3));
+    expect(M.pipe(M.none<number>(), M.or(M.some(2)))).toEqual(new Some(2));
+    expect(M.pipe(M.some(1), M.xor(M.some(2)))).toEqual(new None());
+    expect(M.unzip(new Some<[number, string]>([1, "a"]))).toEqual([new Some(1), new Some("a")]);
+  });
+
+  it("should match and query maybes", () => {
+    const toText = M.flow(M.flatMap((value: number) => value > 0 ? M.some(value) : M.none<number>()), M.match({
+      Some: (value) => `${value}`,
+      None: () => "none",
+    }));
+    expect(toText(M.some(1))).toBe("1");
+    expect(toText(M.some(-1))).toBe("none");
+    expect(M.isSome(M.some(1))).toBe(true);
+    expect(M.toNullable(M.none())).toBeNull();
+    expect(M.pipe(M.some(2), M.isSomeAnd((value) => value > 1))).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+import * as R from '../../src/fp/Result';
+import { Some, None } from '../../src/Maybe';
+import { Result, Ok, Err } from '../../src/Result';
+import { TaggedError } from '../../src/TaggedError';
+
+const parseNumber = (text: string): Result<number, string> => {
+  const value = Number(text);
+  return isNaN(value) ? new Err(`${text} is not a number`) : new Ok(value);
+};
+
+describe("Result pipeable functions", () => {
+  it("should chain with pipe", () => {
+    const result = R.pipe(
+      R.ok(" 42 "),
+      R.map((text) => text.trim()),
+      R.flatMap(parseNumber),
+      R.map((value) => value + 1),
+    );
+    expect(result).toEqual(new Ok(43));
+    expect(R.pipe(result, R.unwrapOr(0))).toBe(43);
+  });
+
+  it("should pass errors through", () => {
+    const result = R.pipe(
+      parseNumber("a"),
+      R.map((value) => value + 1),
+      R.mapErr((error) => error.toUpperCase()),
+    );
+    expect(result).toEqual(new Err("A IS NOT A NUMBER"));
+    expect(R.pipe(result, R.unwrapOrElse((error) => error.length))).toBe(17);
+    expect(R.pipe(result, R.orElse(() => R.ok(0)))).toEqual(new Ok(0));
+  });
+
+  it("should compose with flow", () => {
+    const parse = R.flow(parseNumber, R.map((value) => value * 2), R.getOk);
+    expect(parse("2")).toEqual(new Some(4));
+    expect(parse("b")).toEqual(new None());
+  });
+
+  it("should match and query results", () => {
+    const ok: Result<number, string> = new Ok(1);
+    expect(R.pipe(ok, R.match({ Ok: (value) => `${value}`, Err: (error) => error }))).toBe("1");
+    expect(R.isOk(ok)).toBe(true);
+    expect(R.pipe(ok, R.isOkAnd((value) => value > 0))).toBe(true);
+    expect(R.pipe(ok, R.contains<number, string>(1))).toBe(true);
+    expect(R.pipe(ok, R.equals<number, string>(new Ok(1)))).toBe(true);
+    expect(R.unwrap(ok)).toBe(1);
+    expect(R.getErr(ok)).toEqual(new None());
+    expect(R.flatten(new Ok(new Ok(1)))).toEqual(new Ok(1));
+  });
+
+  it("should catch tagged errors", () => {
+    class NotFound extends TaggedError<'NotFound'> {
+      constructor() {
+        super('NotFound');
+      }
+    }
+    const result: Result<string, NotFound | string> = new Err(new NotFound());
+    const handled: Result<string, string> = R.pipe(result, R.catchTag('NotFound', () => R.ok("guest")));
+    expect(handled).toEqual(new Ok("guest"));
+    expect(R.pipe(result, R.catchTags({ NotFound: () => R.ok("guest") }))).toEqual(new Ok("guest"));
+  });
+});
@@ -0,0 +1,71 @@
+import '../../src/jest';
+import { Maybe, Some, None } from '../../src/Maybe';
+import { Result, Ok, Err } from '../../src/Result';
+
+const ok: Result<{ id: number; name: string }, string> = new Ok({ id: 1, name: "Eric" });
+const err: Result<number, { code: number; message: string }> = new Err({ code: 404, message: "Not found" });
+const some: Maybe<number[]> = new Some([1, 2]);
+const none: Maybe<number> = new None();
+
+/**
+ * Returns the message of the assertion error thrown by the supplied function, without colors.
+ */
+const failure = (fn: () => void): string => {
+  try {
+    fn();
+  } catch (error) {
+    return error.message.replace(new RegExp(`${String.fromCharCode(27)}\\[\\d+m`, "g"), "");
+  }
+  throw new Error("The assertion passed");
+};
+
+describe("Result matchers", () => {
+  it("should pass for the matching container", () => {
+    expect(ok).toBeOk();
+    expect(ok).toBeOkWith({ id: 1, name: "Eric" });
+    expect(err).toBeErr();
+    expect(err).toBeErrWith({ code: 404, message: "Not found" });
+    expect(ok).not.toBeErr();
+    expect(err).not.toBeOkWith(404);
+  });
+
+  it("should support asymmetric matchers", () => {
+    expect(ok).toBeOkWith(expect.objectContaining({ id: 1 }));
+    expect(err).toBeErrWith({ code: expect.any(Number), message: expect.stringContaining("Not") });
+  });
+
+  it("should print the received container", () => {
+    expect(failure(() => expect(err).toBeOk())).toContain('Expected: Ok\nReceived: Err({"code": 404, "message": "Not found"})');
+    expect(failure(() => expect(ok).not.toBeOk())).toContain('Expected: not Ok\nReceived: Ok({"id": 1, "name": "Eric"})');
+    expect(failure(() => expect(1).toBeErr())).toContain("Received: 1");
+  });
+
+  it("should print a diff of the contents", () => {
+    const message = failure(() => expect(ok).toBeOkWith({ id: 2, name: "Eric" }));
+    expect(message).toContain("- Expected Ok");
+    expect(message).toContain("+ Received Ok");
+    expect(message).toContain('-   "id": 2,');
+    expect(message).toContain('+   "id": 1,');
+  });
+});
+
+describe("Maybe matchers", () => {
+  it("should pass for the matching container", () => {
+    expect(some).toBeSome();
+    expect(some).toBeSome([1, 2]);
+    expect(some).toBeSome(expect.arrayContaining([2]));
+    expect(none).toBeNone();
+    expect(some).not.toBeNone();
+    expect(none).not.toBeSome();
+  });
+
+  it("should print the received container", () => {
+    expect(failure(() => expect(none).toBeSome(1))).toContain("Expected: Some(1)\nReceived: None");
+    expect(failure(() => expect(some).toBeNone())).toContain("Expected: None\nReceived: Some([1, 2])");
+  });
+
+  it("should tell containers of different types apart", () => {
+    expect(new Ok(1)).not.toBeSome(1);
+    expect(new None()).not.toBeErr();
+  });
+});
@@ -0,0 +1,68 @@
+import * as fc from 'fast-check';
+import {
+  arbMaybe, arbResult, checkLaws, conversionLaws, functorLaws, maybeLaws, monadLaws, resultLaws, MonadInstance,
+} from '../../src/laws';
+import { Maybe, Some, None } from '../../src/Maybe';
+
+describe("arbitraries", () => {
+  it("should generate both variants of a Maybe", () => {
+    const maybes = fc.sample(arbMaybe(fc.integer()), { numRuns: 200, seed: 1 });
+    expect(maybes.some((maybe) => maybe.isSome())).toBe(true);
+    expect(maybes.some((maybe) => maybe.isNone())).toBe(true);
+  });
+
+  it("should generate both variants of a Result", () => {
+    const results = fc.sample(arbResult(fc.integer(), fc.string()), { numRuns: 200, seed: 1 });
+    expect(results.some((result) => result.isOk() && typeof result.value === "number")).toBe(true);
+    expect(results.some((result) => result.isErr() && typeof result.error === "string")).toBe(true);
+  });
+
+  it("should shrink a Maybe towards None", () => {
+    const details = fc.check(fc.property(arbMaybe(fc.integer()), () => false), { seed: 1 });
+    expect(details.counterexample).toEqual([new None()]);
+  });
+});
+
+describe("Maybe laws", () => {
+  maybeLaws(fc.integer()).forEach((law) => it(law.name, () => law.check()));
+  maybeLaws(fc.array(fc.string())).forEach((law) => it(`${law.name} for arrays`, () => law.check()));
+});
+
+describe("Result laws", () => {
+  resultLaws(fc.integer(), fc.string()).forEach((law) => it(law.name, () => law.check()));
+});
+
+describe("conversion laws", () => {
+  conversionLaws(fc.integer(), fc.string()).forEach((law) => it(law.name, () => law.check()));
+});
+
+describe("law suite", () => {
+  const lawless: MonadInstance<number, Maybe<number>> = {
+    arbitrary: arbMaybe(fc.integer()),
+    value: fc.integer(),
+    of: (n) => new Some(n),
+    map: (maybe, fn) => maybe.map(fn).filter((n) => n >= 0),
+    flatMap: (maybe, fn) => maybe.isSome() && maybe.value < 0 ? new None() : maybe.flatMap(fn),
+  };
+
+  it("should name the laws", () => {
+    expect(monadLaws(lawless).map((law) => law.name)).toEqual([
+      "map identity",
+      "map composition",
+      "flatMap left identity",
+      "flatMap right identity",
+      "flatMap associativity",
+    ]);
+    expect(functorLaws(lawless, "mapErr").map((law) => law.name)).toEqual(["mapErr identity", "mapErr composition"]);
+  });
+
+  it("should find a counterexample to a broken law", () => {
+    const [identity] = functorLaws(lawless);
+    expect(() => identity.check({ seed: 1 })).toThrow(/Counterexample: \[.*Some.*-1.*\]/);
+  });
+
+  it("should name the first broken law", () => {
+    expect(() => checkLaws(monadLaws(lawless), { seed: 1 })).toThrow('The law "map identity" does not hold');
+    expect(() => checkLaws(maybeLaws(fc.integer()), { numRuns: 10 })).not.toThrow();
+  });
+});